@@ -5,15 +5,17 @@
  * from all database tables.
  *
  * Usage:
- *   npx ts-node src/removeFinfluencer.ts <channel_id>
+ *   npx ts-node src/removeFinfluencer.ts <channel_id | @handle | channel URL>
  *
  * Example:
  *   npx ts-node src/removeFinfluencer.ts UCV6KDgJskWaEckne5aPA0aQ
+ *   npx ts-node src/removeFinfluencer.ts https://www.youtube.com/@handle
  */
 
 import { createClient } from "@supabase/supabase-js";
 import * as dotenv from "dotenv";
 import * as readline from "readline";
+import { channelResolverService } from "../src/services/channelResolverService";
 
 // Load environment variables
 dotenv.config();
@@ -231,15 +233,16 @@ async function removeFinfluencer(channelId: string): Promise<void> {
 }
 
 // Main execution
-const channelId = process.argv[2];
+const channelRef = process.argv[2];
 
-if (!channelId) {
+if (!channelRef) {
   console.log(`
 ╔════════════════════════════════════════════════════════════╗
 ║           Remove Finfluencer Script                        ║
 ╠════════════════════════════════════════════════════════════╣
 ║  Usage:                                                    ║
 ║    npx ts-node src/removeFinfluencer.ts <channel_id>       ║
+║    (or an @handle, /c/, /user/ or /channel/ URL)           ║
 ║                                                            ║
 ║  Example:                                                  ║
 ║    npx ts-node src/removeFinfluencer.ts UCxyz123...        ║
@@ -253,7 +256,10 @@ if (!channelId) {
   process.exit(1);
 }
 
-removeFinfluencer(channelId)
+// Handles and URLs need the YouTube API, UC… IDs are used as is
+channelResolverService
+  .resolveChannelId(channelRef)
+  .then((channelId) => removeFinfluencer(channelId))
   .then(() => process.exit(0))
   .catch((err) => {
     console.error("\n❌ Script failed:", err);
@@ -0,0 +1,185 @@
+/**
+ * Webhook Receiver Test Script
+ *
+ * Local receiver for run notifications. Prints every payload it receives and
+ * can fail the first requests to exercise the notifier's retry/backoff.
+ *
+ * Usage:
+ *   # Receive notifications from a real run (NOTIFY_WEBHOOK_URLS=http://127.0.0.1:8787/hook)
+ *   npx ts-node scripts/testWebhookReceiver.ts --port=8787
+ *
+ *   # Send a sample failed run in both formats to the receiver and exit
+ *   npx ts-node scripts/testWebhookReceiver.ts --send
+ *
+ *   # Same, but answer the first 2 requests with HTTP 500
+ *   npx ts-node scripts/testWebhookReceiver.ts --send --fail-first=2
+ */
+
+import http from "http";
+import { config } from "../src/config";
+import { notificationService } from "../src/services/notificationService";
+import { RunReport } from "../src/types";
+
+interface ReceiverOptions {
+  port: number;
+  send: boolean;
+  failFirst: number;
+}
+
+function startReceiver(options: ReceiverOptions): Promise<http.Server> {
+  let requests = 0;
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => {
+      requests++;
+      if (requests <= options.failFirst) {
+        console.log(`💥 Request ${requests} to ${req.url}: answering 500`);
+        res.writeHead(500).end("simulated failure");
+        return;
+      }
+
+      const body = Buffer.concat(chunks).toString("utf8");
+      console.log(`\n📥 Request ${requests} to ${req.url}:`);
+      try {
+        console.log(JSON.stringify(JSON.parse(body), null, 2));
+      } catch {
+        console.log(body);
+      }
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ ok: true }));
+    });
+  });
+
+  return new Promise((resolve) =>
+    server.listen(options.port, "127.0.0.1", () => resolve(server))
+  );
+}
+
+// A failed run with a few repeated errors
+function sampleReport(): RunReport {
+  const finished = new Date();
+  return {
+    run_id: `sample-${Date.now().toString(36)}`,
+    started_at: new Date(finished.getTime() - 754000).toISOString(),
+    finished_at: finished.toISOString(),
+    duration_ms: 754000,
+    status: "failed",
+    version: "sample",
+    segments: 1,
+    stages: {
+      requested: ["channels", "analysis", "combined", "verification"],
+      skipped: [],
+      dry_run: [],
+      executed: ["channels", "analysis"],
+      failed: ["combined"],
+      blocked: ["verification"],
+    },
+    sections: {},
+    lock: { holder: "", acquired_at: "", expires_at: "", taken_over_from: null },
+    deferred: [
+      {
+        stage: "combined",
+        reason: "run_budget",
+        deferred_at: finished.toISOString(),
+        pending_ids: [],
+      },
+    ],
+    youtube_quota: {
+      rotations: 1,
+      keys: {
+        a1b2c3d4e5f6: {
+          calls: 9980,
+          units: 10000,
+          exhausted_at: finished.toISOString(),
+        },
+        f6e5d4c3b2a1: { calls: 412, units: 412, exhausted_at: "" },
+      },
+    },
+    channels: { total: 12, processed: 10, errors: 2 },
+    videos: { total: 40, processed: 31, skipped: 6, errors: 3 },
+    transcripts: {
+      fetched: 31,
+      failed: 3,
+      source: "rapidapi",
+      avg_length_chars: 18000,
+      total_chars: 558000,
+    },
+    ai_analysis: {
+      processed: 31,
+      predictions_extracted: 54,
+      out_of_subject: 4,
+      errors: 1,
+    },
+    combined_predictions: {
+      processed: 0,
+      inserted: 0,
+      skipped_duplicates: 0,
+      errors: 0,
+    },
+    price_fetching: {
+      requests: 0,
+      cache_hits: 0,
+      api_calls: 0,
+      success: 0,
+      failed: 0,
+      source: "",
+    },
+    verification: {
+      processed: 0,
+      resolved_correct: 0,
+      resolved_wrong: 0,
+      still_pending: 0,
+    },
+    news: {
+      feeds_checked: 0,
+      items_found: 0,
+      items_processed: 0,
+      items_saved: 0,
+      non_financial: 0,
+      errors: 0,
+    },
+    offerings: { processed: 0, approved: 0, rejected: 0, errors: 0 },
+    system: {
+      memory_used_mb: 210,
+      errors: [
+        "RapidAPI rate limit exceeded",
+        "RapidAPI rate limit exceeded",
+        "Failed to fetch channel videos: quotaExceeded",
+        "OpenRouter timeout",
+      ],
+    },
+  };
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const portArg = args.find((a) => a.startsWith("--port="));
+  const failArg = args.find((a) => a.startsWith("--fail-first="));
+  const options: ReceiverOptions = {
+    port: portArg ? parseInt(portArg.split("=")[1]) : 8787,
+    send: args.includes("--send"),
+    failFirst: failArg ? parseInt(failArg.split("=")[1]) : 0,
+  };
+
+  const server = await startReceiver(options);
+  console.log(`🛰️ Webhook receiver listening on http://127.0.0.1:${options.port}`);
+
+  if (!options.send) return;
+
+  // Point the notifier at this receiver, one URL per format
+  config.notifications.webhookUrls = [
+    `json:http://127.0.0.1:${options.port}/json`,
+    `slack:http://127.0.0.1:${options.port}/slack`,
+  ].join(",");
+  config.notifications.retryDelayMs = 200;
+
+  await notificationService.notifyRunFinished(sampleReport());
+  server.close();
+}
+
+main().catch((error) => {
+  console.error("❌ Webhook receiver failed:", error);
+  process.exit(1);
+});
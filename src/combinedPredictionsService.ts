@@ -7,6 +7,7 @@ import { reportingService } from "./services/reportingService";
 import { assetClassifierService } from "./services/assetClassifierService";
 import { globalAIAnalyzer } from "./enhancedAnalyzer";
 import { aiVerificationService } from "./services/aiVerificationService";
+import { eventBus } from "./services/eventBus";
 
 /**
  * Combined Predictions Service
@@ -415,11 +416,33 @@ export class CombinedPredictionsService {
                   : "Rule-based verification: Prediction target not met";
             }
 
-            await supabaseService.supabase
+            const { error: updateError } = await supabaseService.supabase
               .from("combined_predictions")
               .update(updateData)
               .eq("id", row.id);
 
+            if (updateError) {
+              this.log("error", `Failed to resolve prediction ${row.id}`, {
+                error: this.safeErrorMessage(updateError),
+                symbol,
+              });
+              continue;
+            }
+
+            // Only resolutions that reached the database are announced
+            if (finalStatus === "correct" || finalStatus === "wrong") {
+              eventBus.emit("prediction.resolved", {
+                predictionId: row.id,
+                asset: symbol,
+                status: finalStatus,
+                actualPrice: verificationResult.actualPrice ?? null,
+                metDate: verificationResult.metDate
+                  ? verificationResult.metDate.toISOString()
+                  : null,
+                aiAgrees: aiReconciliationAgrees,
+              });
+            }
+
             this.log(
               "info",
               `Resolved prediction ${row.id} as ${finalStatus}${
@@ -576,6 +599,18 @@ export class CombinedPredictionsService {
                 confidence: result.confidence,
                 horizonCorrected: result.correctedHorizon.wasCorrected,
               });
+
+              // verifyAndApply() only succeeds once the result is stored
+              if (result.status === "correct" || result.status === "wrong") {
+                eventBus.emit("prediction.resolved", {
+                  predictionId: row.id,
+                  asset: row.asset,
+                  status: result.status,
+                  actualPrice: null,
+                  metDate: result.evidence.targetMetDate,
+                  aiAgrees: null,
+                });
+              }
             } else {
               results.errors++;
               this.log("warn", `Failed to verify ${row.asset}`, {
@@ -1223,6 +1258,10 @@ export class CombinedPredictionsService {
                 tradingview_symbol: tradingviewSymbol, // Persist TV symbol
                 quality_score: p.quality_score, // Individual quality score
                 quality_breakdown: p.quality_breakdown, // Individual quality breakdown
+                source_url: p.source_segment?.url || null, // t=-anchored link to where it is said
+                source_start_seconds: p.source_segment?.start ?? null,
+                source_end_seconds: p.source_segment?.end ?? null,
+                source_quote: p.source_segment?.quote || null, // Verbatim transcript window
               };
 
               if (!dryRun) {
@@ -1241,6 +1280,16 @@ export class CombinedPredictionsService {
                   errorsCount++;
                 } else {
                   inserted++;
+                  eventBus.emit("prediction.inserted", {
+                    videoId,
+                    channelId: rec.channel_id,
+                    asset,
+                    assetType,
+                    sentiment: combinedRow.sentiment,
+                    entryPrice: entryPrice ?? null,
+                    targetPrice: combinedRow.target_price,
+                    horizonEndDate: combinedRow.horizon_end_date,
+                  });
                 }
               } else {
                 inserted++;
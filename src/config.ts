@@ -4,9 +4,33 @@ import path from "path";
 // Load environment variables from the project root
 dotenv.config({ path: path.join(process.cwd(), ".env") });
 
+// YOUTUBE_API_KEY first, then the YOUTUBE_API_KEYS pool (duplicates dropped)
+const youtubeApiKeys = Array.from(
+  new Set(
+    [
+      process.env.YOUTUBE_API_KEY || "",
+      ...(process.env.YOUTUBE_API_KEYS || "").split(","),
+    ]
+      .map((key) => key.trim())
+      .filter(Boolean)
+  )
+);
+
+// "name:number,name:number" -> { name: number }; malformed entries are dropped
+function parseProviderValues(value: string | undefined): Record<string, number> {
+  const values: Record<string, number> = {};
+  (value || "").split(",").forEach((entry) => {
+    const [name, amount] = entry.split(":").map((part) => part.trim());
+    const parsed = parseFloat(amount);
+    if (name && !isNaN(parsed) && parsed >= 0) values[name] = parsed;
+  });
+  return values;
+}
+
 export const config = {
   // YouTube API
-  youtubeApiKey: process.env.YOUTUBE_API_KEY || "",
+  youtubeApiKey: youtubeApiKeys[0] || "",
+  youtubeApiKeys, // Rotated when a key runs out of quota
 
   // Supabase
   supabaseUrl: process.env.SUPABASE_URL || "",
@@ -38,10 +62,93 @@ export const config = {
   transcriptApiUrl:
     process.env.TRANSCRIPTAPI_URL || "https://transcriptapi.com/api/v2",
 
+  // Transcript providers, tried in this order until one returns a transcript;
+  // per-channel override in finfluencer_channels.transcript_providers
+  transcripts: {
+    providers: (
+      process.env.TRANSCRIPT_PROVIDERS || "rapidapi,supadata,transcriptapi"
+    )
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean),
+    // Monthly budget per provider in its own unit (credits or requests), e.g.
+    // "supadata:100,transcriptapi:1000"; providers without one are unlimited
+    budgets: parseProviderValues(process.env.TRANSCRIPT_MONTHLY_BUDGETS),
+    // Price of one credit/request per provider, e.g. "supadata:0.0017"
+    unitPrices: parseProviderValues(process.env.TRANSCRIPT_UNIT_PRICES),
+    currency: process.env.TRANSCRIPT_COST_CURRENCY || "USD",
+    spendRefreshSeconds: parseInt(process.env.TRANSCRIPT_SPEND_REFRESH_SECONDS || "60"), // Re-read other processes' spend
+    // Reorder TRANSCRIPT_PROVIDERS by observed success, latency, 429s and cost
+    adaptiveOrder: process.env.TRANSCRIPT_ADAPTIVE_ORDER === "true",
+    scoreWindow: parseInt(process.env.TRANSCRIPT_SCORE_WINDOW || "50"), // Recent attempts scored per provider
+    explorationRate: parseFloat(process.env.TRANSCRIPT_EXPLORATION_RATE || "0.05"), // Share of fetches that try a lower-ranked provider first
+    minGrade: parseFloat(process.env.TRANSCRIPT_MIN_GRADE || "0.5"), // Lower-graded transcripts are re-fetched from the next provider
+  },
+
   // Application
   startDate: process.env.START_DATE || "2025-01-01",
   timezone: process.env.TZ || "Europe/Istanbul",
 
+  // Stage selection (comma-separated stage names, CLI flags take precedence)
+  stages: {
+    run: process.env.RUN_STAGES || "", // Empty = all stages
+    skip: process.env.SKIP_STAGES || "",
+    dryRun: process.env.DRY_RUN_STAGES || "", // "all" or comma-separated stages
+    plugins: process.env.STAGE_PLUGINS || "", // Comma-separated module paths registering extra stages
+  },
+
+  // Resume an interrupted run by its run_id (same as --run-id=<id>)
+  resumeRunId: process.env.RUN_ID || "",
+
+  // Wall-clock time budgets in minutes (0 / empty = unlimited)
+  timeBudget: {
+    runMinutes: parseFloat(process.env.RUN_TIME_BUDGET_MINUTES || "0"),
+    stageMinutes: process.env.STAGE_TIME_BUDGETS || "", // e.g. "retries=30,analysis=45"
+  },
+
+  // Daemon mode: stay alive and run stages on their own cron schedules
+  daemon: {
+    enabled: process.env.DAEMON_MODE === "true", // Also enabled with --daemon
+    schedules: process.env.STAGE_SCHEDULES || "", // "stage[,stage]=cron;..." (empty = defaults)
+    jitterSeconds: parseInt(process.env.SCHEDULE_JITTER_SECONDS || "30"),
+    misfireGraceSeconds: parseInt(
+      process.env.SCHEDULE_MISFIRE_GRACE_SECONDS || "600"
+    ), // 10 minutes
+    misfirePolicy: (process.env.SCHEDULE_MISFIRE_POLICY || "run_once") as
+      | "run_once"
+      | "skip",
+  },
+
+  // Control plane HTTP API (status, health, manual triggers)
+  controlPlane: {
+    enabled: process.env.CONTROL_PLANE_ENABLED === "true",
+    host: process.env.CONTROL_PLANE_HOST || "127.0.0.1",
+    port: parseInt(process.env.CONTROL_PLANE_PORT || "8080"),
+    token: process.env.CONTROL_PLANE_TOKEN || "", // Required when enabled
+    healthCacheSeconds: parseInt(
+      process.env.CONTROL_PLANE_HEALTH_CACHE_SECONDS || "60"
+    ),
+  },
+
+  // Run notifications (webhooks posted when a run finishes)
+  notifications: {
+    webhookUrls: process.env.NOTIFY_WEBHOOK_URLS || "", // Comma-separated, "slack:" / "json:" prefix optional
+    minSeverity: (process.env.NOTIFY_MIN_SEVERITY || "warning") as
+      | "info"
+      | "warning"
+      | "critical", // info = every run, warning = partial/failed, critical = failed
+    maxRetries: parseInt(process.env.NOTIFY_MAX_RETRIES || "3"),
+    retryDelayMs: parseInt(process.env.NOTIFY_RETRY_DELAY_MS || "2000"),
+    timeoutMs: parseInt(process.env.NOTIFY_TIMEOUT_MS || "10000"),
+  },
+
+  // Run lock (lease in run_locks, prevents overlapping executions)
+  runLock: {
+    enabled: process.env.RUN_LOCK_ENABLED !== "false",
+    ttlMs: parseInt(process.env.RUN_LOCK_TTL_MS || "300000"), // 5 minutes
+    heartbeatMs: parseInt(process.env.RUN_LOCK_HEARTBEAT_MS || "60000"), // 1 minute
+  },
+
   // AI Verification (set to 'true' to use AI-driven verification instead of hardcoded logic)
   useAIVerification: process.env.USE_AI_VERIFICATION === "true",
 
@@ -56,9 +163,49 @@ export const config = {
   retryDelay: 1000, // ms
   requestTimeout: 90000, // ms - Extended to 90 seconds
 
+  // Worker pools (1 = sequential); provider rate limiters and circuit
+  // breakers are shared by all workers
+  concurrency: {
+    channels: parseInt(process.env.CHANNEL_CONCURRENCY || "1"),
+    videos: parseInt(process.env.VIDEO_CONCURRENCY || "1"), // Per channel
+  },
+
   // YouTube API limits
   youtubeMaxResults: 50,
   youtubeApiQuota: 10000,
+  youtubeFeed: {
+    // "api" (Data API) or "feed" (Atom feed, API fallback when stale); per-channel
+    // override in finfluencer_channels.discovery_mode
+    discoveryMode: (process.env.YOUTUBE_DISCOVERY_MODE || "api") as
+      | "api"
+      | "feed",
+    timeoutMs: parseInt(process.env.YOUTUBE_FEED_TIMEOUT_MS || "10000"),
+    requestsPerSecond: parseFloat(process.env.YOUTUBE_FEED_RPS || "2"),
+  },
+  // @handle / custom URL -> channel ID lookups are cached in memory
+  channelResolver: {
+    cacheHours: parseInt(process.env.CHANNEL_RESOLVER_CACHE_HOURS || "24"),
+  },
+  // Live streams and premieres wait in deferred_videos until captions exist
+  liveVideos: {
+    captionDelayMinutes: parseInt(process.env.LIVE_CAPTION_DELAY_MINUTES || "60"), // After the stream ends
+    recheckMinutes: parseInt(process.env.LIVE_RECHECK_MINUTES || "60"),
+    maxWaitHours: parseInt(process.env.LIVE_MAX_WAIT_HOURS || "168"), // Then give up (1 week)
+    maxFailures: parseInt(process.env.LIVE_MAX_FAILURES || "3"), // Failed processing attempts before giving up
+  },
+  // Sweep over videos backing predictions (deletions, privacy, title edits)
+  availability: {
+    recheckDays: parseInt(process.env.AVAILABILITY_RECHECK_DAYS || "7"),
+    maxVideosPerRun: parseInt(process.env.AVAILABILITY_MAX_VIDEOS || "5000"), // 1 unit per 50 videos
+  },
+  backfill: {
+    maxPages: parseInt(process.env.BACKFILL_MAX_PAGES || "200"), // Uploads pages read per job (50 videos each)
+  },
+  youtubeQuota: {
+    // search.list (100 units) is refused once this share of the daily quota is used
+    lowPriorityShare: parseFloat(process.env.YOUTUBE_SEARCH_QUOTA_SHARE || "0.8"),
+    refreshSeconds: parseInt(process.env.YOUTUBE_QUOTA_REFRESH_SECONDS || "60"), // Re-read other processes' usage
+  },
 
   // OpenRouter settings
   openrouterTemperature: 0.4,
@@ -142,8 +289,10 @@ function maskSensitiveValue(value: string | undefined): string {
 export function validateConfig(): void {
   console.log("🔍 Configuration Status:");
   console.log(
-    "- YOUTUBE_API_KEY:",
-    process.env.YOUTUBE_API_KEY ? "CONFIGURED" : "MISSING"
+    "- YOUTUBE_API_KEY(S):",
+    config.youtubeApiKeys.length > 0
+      ? `${config.youtubeApiKeys.length} CONFIGURED`
+      : "MISSING"
   );
   console.log(
     "- SUPABASE_URL:",
@@ -233,9 +382,13 @@ export function validateConfig(): void {
   }
 
   // Validate YouTube API key format (basic check)
-  if (config.youtubeApiKey.length < 20) {
-    throw new Error("YouTube API key appears to be invalid (too short)");
-  }
+  config.youtubeApiKeys.forEach((key, index) => {
+    if (key.length < 20) {
+      throw new Error(
+        `YouTube API key #${index + 1} appears to be invalid (too short)`
+      );
+    }
+  });
 
   // Validate Supabase URL
   try {
@@ -0,0 +1,194 @@
+import { ConfigurationError } from "./errors";
+
+// Parsed 5-field cron expression: minute hour day-of-month month day-of-week
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>; // 0 = Sunday
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+const CRON_MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+};
+
+const FIELD_NAMES = ["minute", "hour", "day of month", "month", "day of week"];
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7], // 7 is also Sunday
+];
+
+// Enough iterations to cover several years of day/hour skips
+const MAX_SEARCH_STEPS = 100000;
+
+// Parse one cron field ("*/15", "1-5", "0,30", "10-40/10")
+function parseField(field: string, index: number, expression: string): Set<number> {
+  const [min, max] = FIELD_RANGES[index];
+  const values = new Set<number>();
+  const invalid = () =>
+    new ConfigurationError(
+      `Invalid ${FIELD_NAMES[index]} field "${field}" in cron expression "${expression}"`
+    );
+
+  for (const part of field.split(",")) {
+    const [rangePart, stepPart] = part.split("/");
+    const step = stepPart !== undefined ? Number(stepPart) : 1;
+    if (!Number.isInteger(step) || step < 1) throw invalid();
+
+    let start: number;
+    let end: number;
+    if (rangePart === "*") {
+      start = min;
+      end = max;
+    } else if (rangePart.includes("-")) {
+      const [from, to] = rangePart.split("-");
+      start = Number(from);
+      end = Number(to);
+    } else {
+      start = Number(rangePart);
+      // "5/15" means every 15 starting at 5
+      end = stepPart !== undefined ? max : start;
+    }
+
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < min ||
+      end > max ||
+      start > end
+    ) {
+      throw invalid();
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(index === 4 && value === 7 ? 0 : value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a standard 5-field cron expression (or @hourly/@daily/... macro)
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const normalized = expression.trim().toLowerCase();
+  const fields = (CRON_MACROS[normalized] || normalized).split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new ConfigurationError(
+      `Cron expression "${expression}" must have 5 fields (minute hour day month weekday)`
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+    (field, index) => parseField(field, index, expression)
+  );
+
+  return {
+    expression: expression.trim(),
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: !fields[2].startsWith("*"),
+    dowRestricted: !fields[4].startsWith("*"),
+  };
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Wall-clock parts of a date in the given IANA timezone
+function getZonedParts(date: Date, timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      weekday: "short",
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+function matchesDay(
+  schedule: CronSchedule,
+  parts: ReturnType<typeof getZonedParts>
+): boolean {
+  const dom = schedule.daysOfMonth.has(parts.day);
+  const dow = schedule.daysOfWeek.has(parts.weekday);
+
+  // Standard cron: when both are restricted, either one matching is enough
+  if (schedule.domRestricted && schedule.dowRestricted) return dom || dow;
+  if (schedule.domRestricted) return dom;
+  if (schedule.dowRestricted) return dow;
+  return true;
+}
+
+/**
+ * Next time (strictly after `after`) the schedule fires in the given timezone
+ * Local times skipped by a DST change never fire
+ */
+export function getNextCronTime(
+  schedule: CronSchedule,
+  after: Date,
+  timeZone: string
+): Date {
+  let time = Math.floor(after.getTime() / 60000) * 60000 + 60000;
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    const parts = getZonedParts(new Date(time), timeZone);
+
+    if (!schedule.months.has(parts.month) || !matchesDay(schedule, parts)) {
+      // Jump to the next local midnight
+      time += (24 * 60 - (parts.hour * 60 + parts.minute)) * 60000;
+      continue;
+    }
+    if (!schedule.hours.has(parts.hour)) {
+      time += (60 - parts.minute) * 60000;
+      continue;
+    }
+    if (!schedule.minutes.has(parts.minute)) {
+      time += 60000;
+      continue;
+    }
+
+    return new Date(time);
+  }
+
+  throw new ConfigurationError(
+    `Cron expression "${schedule.expression}" never fires`
+  );
+}
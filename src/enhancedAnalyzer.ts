@@ -1,6 +1,11 @@
 import axios from "axios";
 import { config } from "./config";
-import { AIAnalysisResult, Prediction, AIModification } from "./types";
+import {
+  AIAnalysisResult,
+  Prediction,
+  AIModification,
+  TranscriptSegment,
+} from "./types";
 import { OpenRouterError, AnalysisError } from "./errors";
 import {
   logger,
@@ -8,6 +13,8 @@ import {
   detectLanguage,
   sanitizeText,
 } from "./utils";
+import { findSegmentWindow } from "./transcriptSegments";
+import { transcriptStoreService } from "./services/transcriptStoreService";
 
 /**
  * Global Language-Agnostic AI Analyzer
@@ -197,6 +204,7 @@ You MUST return ONLY one JSON object with NO text outside it:
       "asset_type": "<stock | index | commodity | crypto | fx>",
       "sentiment": "<bullish | bearish | neutral>",
       "prediction_text": "<string in detected language>",
+      "source_quote": "<verbatim excerpt of the transcript (max 40 words) where the prediction is made>",
       "necessary_conditions_for_prediction": "<string or null>",
       "prediction_date": "<YYYY-MM-DD>",
       "horizon": {
@@ -227,11 +235,14 @@ STRICT RULE: Do NOT output ANYTHING except the JSON object.
 STRICT RULE: Do NOT invent predictions, dates, assets, tickers, or prices.
 STRICT RULE: Do NOT include assets outside the five allowed categories.
 STRICT RULE: Do NOT produce a prediction unless the transcript explicitly makes one.
+STRICT RULE: source_quote MUST be copied word for word from the transcript, never translated or paraphrased.
 
 Use this prompt EXACTLY as provided, and follow all instructions to the letter.`;
   }
   /**
    * Analyze transcript with global language-agnostic approach
+   * Timed segments locate each prediction in the video; when not given, the
+   * stored transcript's segments are used if it is the same text
    */
   async analyzeTranscript(
     transcript: string,
@@ -243,7 +254,8 @@ Use this prompt EXACTLY as provided, and follow all instructions to the letter.`
       publishedAt: string;
       defaultLanguage?: string;
       defaultAudioLanguage?: string;
-    }
+    },
+    segments?: TranscriptSegment[] | null
   ): Promise<AIAnalysisResult> {
     if (!transcript || transcript.trim().length === 0) {
       throw new AnalysisError("Transcript is empty");
@@ -369,6 +381,13 @@ ${transcript}
         };
       });
 
+      finalResult.predictions = await this.attachSegmentRefs(
+        finalResult.predictions,
+        transcript,
+        videoMetadata.videoId,
+        segments
+      );
+
       finalResult.quality_score = maxScore;
       finalResult.quality_breakdown = {
         max_score: maxScore,
@@ -410,6 +429,44 @@ ${transcript}
     }
   }
 
+  /**
+   * Point each prediction at the transcript window it was taken from
+   * (source quote first, prediction text as fallback); predictions stay
+   * unreferenced when the transcript has no timings
+   */
+  private async attachSegmentRefs(
+    predictions: Prediction[],
+    transcript: string,
+    videoId: string,
+    segments?: TranscriptSegment[] | null
+  ): Promise<Prediction[]> {
+    if (predictions.length === 0) return predictions;
+
+    let timed = segments;
+    if (timed === undefined) {
+      const stored = await transcriptStoreService.get(videoId);
+      timed =
+        stored?.content_hash === transcriptStoreService.hash(transcript)
+          ? stored.segments
+          : null;
+    }
+    if (!timed || timed.length === 0) return predictions;
+
+    let located = 0;
+    const referenced = predictions.map((pred) => {
+      const ref =
+        findSegmentWindow(timed, pred.source_quote, videoId) ||
+        findSegmentWindow(timed, pred.prediction_text, videoId);
+      if (ref) located++;
+      return { ...pred, source_segment: ref };
+    });
+
+    logger.info(
+      `🎯 Located ${located}/${predictions.length} predictions in the transcript of ${videoId}`
+    );
+    return referenced;
+  }
+
   /**
    * Get primary language from video metadata
    */
@@ -1015,6 +1072,9 @@ Turkish speakers often discuss two different gold products:
         asset: sanitizeText(String(pred.asset || "")).toUpperCase(),
         sentiment: this.validateSentiment(pred.sentiment),
         prediction_text: sanitizeText(String(pred.prediction_text || "")),
+        source_quote: pred.source_quote
+          ? sanitizeText(String(pred.source_quote))
+          : null,
         prediction_date: this.validateDate(pred.prediction_date),
         horizon: this.validateHorizon(pred.horizon),
         target_price: this.validateTargetPrice(pred.target_price),
@@ -41,6 +41,16 @@ export class ValidationError extends Error {
   }
 }
 
+export class ChannelResolutionError extends ValidationError {
+  public input: string;
+
+  constructor(message: string, input: string) {
+    super(message);
+    this.name = 'ChannelResolutionError';
+    this.input = input;
+  }
+}
+
 export class ConfigurationError extends Error {
   constructor(message: string) {
     super(message);
@@ -61,3 +71,15 @@ export class AnalysisError extends Error {
     this.name = 'AnalysisError';
   }
 }
+
+export class RunLockError extends Error {
+  public holder?: string;
+  public expiresAt?: string;
+
+  constructor(message: string, options?: { holder?: string; expiresAt?: string }) {
+    super(message);
+    this.name = 'RunLockError';
+    this.holder = options?.holder;
+    this.expiresAt = options?.expiresAt;
+  }
+}
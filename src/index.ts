@@ -2,9 +2,11 @@ import { config, validateConfig } from "./config";
 import { supabaseService } from "./supabase";
 import { youtubeService, YouTubeService } from "./youtube";
 import { globalAIAnalyzer } from "./enhancedAnalyzer";
-import { rapidapiService } from "./rapidapi";
 import { supadataService } from "./supadataService";
 import { transcriptAPIService } from "./services/transcriptAPIService";
+import { transcriptProviderRegistry } from "./services/transcriptProviderRegistry";
+import { transcriptSpendService } from "./services/transcriptSpendService";
+import { transcriptProviderScoreService } from "./services/transcriptProviderScoreService";
 import { retryService } from "./retryService";
 import { combinedPredictionsService } from "./combinedPredictionsService";
 import {
@@ -12,16 +14,64 @@ import {
   setupGracefulShutdown,
   getMemoryUsage,
   parseYouTubeDuration,
+  runWithWorkerPool,
+  isUsableTranscript,
 } from "./utils";
-import { CronJobStats } from "./types";
+import {
+  CronJobStats,
+  FinfluencerChannel,
+  PipelineStage,
+  StageSelection,
+  TrackedPlaylist,
+  YouTubeVideo,
+} from "./types";
 import { reportingService } from "./services/reportingService";
+import { checkpointService } from "./services/checkpointService";
+import { runLockService } from "./services/runLockService";
+import { timeBudgetService } from "./services/timeBudgetService";
+import { eventBus } from "./services/eventBus";
+import { notificationService } from "./services/notificationService";
+import { youtubeQuotaService } from "./services/youtubeQuotaService";
+import { deferredVideoService } from "./services/deferredVideoService";
+import { videoAvailabilityService } from "./services/videoAvailabilityService";
+import {
+  backfillService,
+  resolveBackfillOptions,
+} from "./services/backfillService";
+import {
+  resolveSubtitleImportOptions,
+  subtitleImportService,
+} from "./services/subtitleImportService";
 import { newsService } from "./services/newsService";
 import { offeringEvaluationService } from "./services/offeringEvaluationService";
-import { ConfigurationError } from "./errors";
+import {
+  stageRegistry,
+  StageContext,
+  StageDefinition,
+} from "./services/stageRegistry";
+import {
+  ConfigurationError,
+  DatabaseError,
+  RunLockError,
+  ValidationError,
+} from "./errors";
+import {
+  resolveStageSelection,
+  isStageSelected,
+  isStageDryRun,
+  getPipelineStages,
+  TRANSCRIPT_STAGES,
+} from "./stageSelection";
+import { transcriptExpectations } from "./transcriptQuality";
+import { StageScheduler } from "./scheduler";
+import { ControlPlaneServer } from "./services/controlPlaneService";
 
 class FinfluencerTracker {
   private isShuttingDown = false;
+  private isRunActive = false;
+  private abortReason: string | null = null; // Why the current run was stopped
   private stats: CronJobStats;
+  private selection: StageSelection;
 
   constructor() {
     this.stats = {
@@ -35,13 +85,64 @@ class FinfluencerTracker {
       errors: 0,
       start_time: new Date(),
     };
+    this.registerBuiltInStages();
   }
 
   // Main execution method
-  async run(): Promise<void> {
+  // Runs every stage unless a selection (--stages / RUN_STAGES) narrows it down
+  // Passing the run_id of an interrupted run resumes it from its checkpoints;
+  // `runId` names a new run up front (control plane)
+  async run(
+    selection?: StageSelection,
+    options: {
+      resumeRunId?: string;
+      runId?: string;
+      // Runs under the lock after the connection tests, before the stages
+      prepare?: () => Promise<void>;
+      // Called once the run lock is held, i.e. the run has really started
+      onStarted?: () => void;
+    } = {}
+  ): Promise<void> {
+    // Checked before the report is touched so the active run's report survives
+    if (this.isRunActive) {
+      throw new RunLockError("A run is already in progress in this process");
+    }
+    this.isRunActive = true;
+    this.abortReason = null;
+    const runId =
+      options.resumeRunId || options.runId || reportingService.generateRunId();
+
+    // Prevent overlapping executions (manual trigger + cron). Taken before
+    // anything reads or writes run_reports, so a blocked run leaves the active
+    // run's report alone and writes none of its own.
     try {
-      // Initialize reporting service
-      reportingService.initialize();
+      await runLockService.acquire(runId, (reason) => this.abortRun(reason));
+    } catch (error) {
+      this.isRunActive = false;
+      throw error;
+    }
+    options.onStarted?.();
+
+    try {
+      // Initialize reporting service (resumed runs merge earlier counters)
+      if (options.resumeRunId) {
+        await reportingService.resume(runId);
+      } else {
+        reportingService.initialize(runId);
+      }
+      runLockService.recordInReport();
+      await checkpointService.load(reportingService.getReport().run_id);
+      eventBus.setRunId(reportingService.getReport().run_id);
+
+      // Start the wall-clock budget and pick up work the last run deferred
+      timeBudgetService.start();
+      await timeBudgetService.loadPreviousDeferred(
+        reportingService.getReport().run_id
+      );
+
+      // Resolve stage plan before anything touches external services
+      this.selection = selection || resolveStageSelection();
+      reportingService.setStagePlan(this.selection);
       // Initial save to mark run as "running"
       await reportingService.save();
 
@@ -49,6 +150,9 @@ class FinfluencerTracker {
         version: "2.0.28",
         environment: config.timezone,
         model: config.openrouterModel,
+        stages: this.selection.stages,
+        skipped: this.selection.skipped,
+        dryRun: this.selection.dryRun,
       });
 
       // Validate configuration
@@ -57,60 +161,417 @@ class FinfluencerTracker {
       // Test all connections
       await this.testConnections();
 
-      // Process all active channels (new videos since last_checked_at)
-      await this.processAllChannels();
-
-      // GAP DETECTION: Check for missed videos since START_DATE
-      await this.detectAndProcessMissedVideos();
+      if (options.prepare) await options.prepare();
 
-      // Process failed predictions (idle-time retry)
-      await this.processFailedPredictions();
-
-      // Analyze unprocessed transcripts with pagination
-      await this.analyzeUnprocessedTranscripts();
-
-      // Process combined predictions (AI enrichment + price data)
-      await this.processCombinedPredictions();
-
-      // Process News (Fetch, Scrape, Analyze)
-      await newsService.processNews();
+      // Stages deferred by the previous run (time budget) go first, as far
+      // as their dependencies allow
+      const ordered = stageRegistry.order(
+        timeBudgetService.getPriorityStages()
+      );
 
-      // Process Finfluencer Offerings (Evaluate and Approve/Reject)
-      await offeringEvaluationService.processOfferings();
+      for (const stage of ordered) {
+        await this.runStage(stage);
+      }
 
-      // Finalize and display report
-      reportingService.finalize("success");
+      // Let event subscribers finish before the run is reported as done
+      await eventBus.flush();
+
+      // Failed stages were isolated, so the run is only partially successful
+      this.carryForwardDeferred();
+      const { executed, failed } = reportingService.getReport().stages;
+      reportingService.finalize(
+        this.abortReason
+          ? "failed"
+          : failed.length === 0
+          ? "success"
+          : executed.length > 0
+          ? "partial"
+          : "failed"
+      );
       reportingService.printCLI();
       await reportingService.save();
+      await notificationService.notifyRunFinished(reportingService.getReport());
 
-      logger.info("✅ Finfluencer Tracker completed successfully");
+      logger.info(
+        failed.length === 0
+          ? "✅ Finfluencer Tracker completed successfully"
+          : `⚠️ Finfluencer Tracker completed with failed stage(s): ${failed.join(", ")}`
+      );
     } catch (error) {
       logger.error("❌ Finfluencer Tracker failed", { error });
       this.stats.errors++;
       reportingService.addError((error as Error).message);
+      this.carryForwardDeferred();
       reportingService.finalize("failed");
       reportingService.printCLI();
       await reportingService.save();
+      await notificationService.notifyRunFinished(reportingService.getReport());
       throw error;
     } finally {
       this.stats.end_time = new Date();
+      await youtubeQuotaService.flush();
+      await transcriptSpendService.flush();
+      await transcriptProviderScoreService.flush();
+      await runLockService.release();
+      // A lost lease only stops this run; later daemon runs start normally
+      if (this.abortReason) this.isShuttingDown = false;
+      this.isRunActive = false;
+    }
+  }
+
+  // Earlier deferrals of stages this run did not complete stay outstanding
+  private carryForwardDeferred(): void {
+    timeBudgetService.carryForward((stage) =>
+      checkpointService.isCompleted(stage)
+    );
+  }
+
+  // Stop the current run after the in-flight work (e.g. the run lock was lost,
+  // so another run may already be working on the same data)
+  private abortRun(reason: string): void {
+    logger.error(`🛑 Stopping run: ${reason}`);
+    this.abortReason = reason;
+    reportingService.addError(reason);
+    this.isShuttingDown = true;
+  }
+
+  isRunning(): boolean {
+    return this.isRunActive;
+  }
+
+  // Reprocess a single video on demand (control plane)
+  // Holds the run lock like a run does, so it never overlaps a run in this or
+  // another process (throws RunLockError when one is active)
+  async reprocessVideo(
+    videoId: string
+  ): Promise<{ action: string; outcome?: string }> {
+    if (this.isRunActive) {
+      throw new RunLockError("A run is already in progress in this process");
+    }
+    this.isRunActive = true;
+
+    try {
+      await runLockService.acquire(`reprocess:${videoId}`);
+      return await this.reprocessVideoLocked(videoId);
+    } finally {
+      await runLockService.release();
+      this.isRunActive = false;
+    }
+  }
+
+  // Stored transcripts are re-analyzed, rows without one go back to the retry
+  // queue, and unknown videos are fetched and processed like a new upload
+  private async reprocessVideoLocked(
+    videoId: string
+  ): Promise<{ action: string; outcome?: string }> {
+    const { data: record, error } = await supabaseService
+      .getClient()
+      .from("finfluencer_predictions")
+      .select("*")
+      .eq("video_id", videoId)
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(`Failed to load video ${videoId}: ${error.message}`, {
+        cause: error,
+      });
+    }
+
+    if (record?.raw_transcript) {
+      logger.info(`🔁 Re-analyzing stored transcript for ${videoId}`);
+      const outcome = await this.analyzeUnprocessedRecord(record);
+      return { action: "reanalyzed", outcome };
+    }
+
+    if (record) {
+      const { error: resetError } = await supabaseService
+        .getClient()
+        .from("finfluencer_predictions")
+        .update({ subject_outcome: "pending", retry_count: 0 })
+        .eq("id", record.id);
+
+      if (resetError) {
+        throw new DatabaseError(
+          `Failed to queue video ${videoId} for retry: ${resetError.message}`,
+          { cause: resetError }
+        );
+      }
+      logger.info(`🔁 Video ${videoId} has no transcript, queued for retry`);
+      return { action: "queued_for_retry" };
+    }
+
+    const video = await youtubeService.getVideoMetadata(videoId);
+    if (!video) {
+      throw new ValidationError(`Video ${videoId} not found on YouTube`);
+    }
+
+    const channels = await supabaseService.getActiveChannels();
+    const channel = channels.find(
+      (c) => c.channel_id.trim() === video.channelId
+    );
+    if (!channel) {
+      throw new ValidationError(
+        `Video ${videoId} does not belong to an active channel`
+      );
+    }
+
+    logger.info(`🔁 Processing unknown video ${videoId} for ${channel.channel_name}`);
+    // A single (possibly old) video must not move the channel's cursor
+    await this.processVideo(video, channel, { updateLastChecked: false });
+    return { action: "processed" };
+  }
+
+  // Register the built-in stages (plugins can depend on these names)
+  private registerBuiltInStages(): void {
+    const builtIns: StageDefinition[] = [
+      {
+        name: "channels",
+        description: "New videos of all active channels since last_checked_at",
+        execute: () => this.processAllChannels(),
+      },
+      {
+        name: "gap_detection",
+        description: "Missed videos since START_DATE",
+        dependsOn: ["channels"],
+        execute: () => this.detectAndProcessMissedVideos(),
+      },
+      {
+        name: "live_videos",
+        description: "Deferred live streams and premieres that are ready now",
+        report: {
+          queued: 0,
+          rechecked: 0,
+          processed: 0,
+          still_waiting: 0,
+          expired: 0,
+        },
+        execute: (ctx) => this.processDeferredVideos(ctx),
+      },
+      {
+        name: "backfill",
+        description: "Queued channel history from the backfill command",
+        report: { jobs: 0, processed: 0, failed: 0, jobs_completed: 0 },
+        execute: (ctx) => this.processBackfillJobs(ctx),
+      },
+      {
+        name: "retries",
+        description: "Idle-time retry of failed predictions",
+        execute: () => this.processFailedPredictions(),
+      },
+      {
+        name: "analysis",
+        description: "Analyze unprocessed transcripts",
+        execute: () => this.analyzeUnprocessedTranscripts(),
+      },
+      {
+        name: "combined",
+        description: "AI enrichment and price data for combined predictions",
+        dependsOn: ["analysis"],
+        execute: () => this.processCombinedPredictions(),
+      },
+      {
+        name: "verification",
+        description: "Verify all horizon-passed predictions",
+        dependsOn: ["combined"],
+        execute: () => this.reconcileAllPredictions(),
+      },
+      {
+        name: "availability",
+        description:
+          "Record deleted, privated and retitled source videos, flag their predictions",
+        report: {
+          checked: 0,
+          deleted: 0,
+          privated: 0,
+          unlisted: 0,
+          restored: 0,
+          title_changed: 0,
+          predictions_flagged: 0,
+        },
+        execute: (ctx) => videoAvailabilityService.sweep(ctx),
+      },
+      {
+        name: "news",
+        description: "Fetch, scrape and analyze news feeds",
+        execute: async (ctx) => {
+          if (ctx.dryRun) {
+            logger.info("🧪 [DRY RUN] Would fetch, scrape and analyze news feeds");
+            return;
+          }
+          await newsService.processNews();
+        },
+      },
+      {
+        name: "offerings",
+        description: "Evaluate and approve/reject finfluencer offerings",
+        execute: async (ctx) => {
+          if (ctx.dryRun) {
+            const pending = await supabaseService.getPendingOfferings();
+            logger.info(
+              `🧪 [DRY RUN] Would evaluate ${pending.length} pending offering(s)`
+            );
+            return;
+          }
+          await offeringEvaluationService.processOfferings();
+        },
+      },
+    ];
+
+    for (const stage of builtIns) {
+      if (!stageRegistry.has(stage.name)) {
+        stageRegistry.register(stage);
+      }
     }
   }
 
+  // Context handed to a stage's execute()
+  private createStageContext(stage: PipelineStage): StageContext {
+    return {
+      runId: reportingService.getReport().run_id,
+      stage,
+      dryRun: this.isDryRun(stage),
+      report: {
+        increment: (key, by) => reportingService.incrementSection(stage, key, by),
+        set: (key, value) => reportingService.setSection(stage, key, value),
+      },
+      priorityIds: timeBudgetService.getPriorityIds(stage),
+      shouldStop: () =>
+        this.isShuttingDown || timeBudgetService.isExhausted(stage) !== null,
+      defer: (pendingIds) =>
+        timeBudgetService.defer(
+          stage,
+          timeBudgetService.isExhausted(stage) || "stage_budget",
+          pendingIds
+        ),
+      commit: (update) => checkpointService.commit(stage, update),
+      isProcessed: (id) => checkpointService.isProcessed(stage, id),
+    };
+  }
+
+  // Run a single stage if it is part of the current selection
+  // A failing stage is recorded and blocks its dependents; other stages still run
+  private async runStage(definition: StageDefinition): Promise<void> {
+    const stage = definition.name;
+
+    if (!isStageSelected(this.selection, stage)) {
+      logger.info(`⏭️ Skipping stage "${stage}" (not selected)`);
+      return;
+    }
+
+    if (!stageRegistry.isEnabled(stage)) {
+      logger.info(`⏭️ Skipping stage "${stage}" (disabled)`);
+      reportingService.markStageSkipped(stage);
+      return;
+    }
+
+    if (this.isShuttingDown) {
+      logger.info(`Shutdown requested, not starting stage "${stage}"`);
+      return;
+    }
+
+    const { failed, blocked } = reportingService.getReport().stages;
+    const brokenDependency = (definition.dependsOn || []).find(
+      (dependency) => failed.includes(dependency) || blocked.includes(dependency)
+    );
+    if (brokenDependency) {
+      logger.warn(
+        `⛔ Skipping stage "${stage}": dependency "${brokenDependency}" did not complete`
+      );
+      reportingService.markStageBlocked(stage);
+      return;
+    }
+
+    if (checkpointService.isCompleted(stage)) {
+      logger.info(
+        `⏩ Stage "${stage}" already completed in an earlier segment, skipping`
+      );
+      return;
+    }
+
+    // Run budget already spent: hand the whole stage to the next run
+    const exhausted = timeBudgetService.isExhausted(stage);
+    if (exhausted) {
+      timeBudgetService.defer(
+        stage,
+        exhausted,
+        timeBudgetService.getPriorityIds(stage)
+      );
+      return;
+    }
+
+    logger.info(
+      `▶️ Starting stage "${stage}"${
+        this.isDryRun(stage) ? " (dry run)" : ""
+      }`
+    );
+    if (definition.report) {
+      reportingService.initSection(stage, definition.report);
+    }
+    timeBudgetService.startStage(stage);
+
+    try {
+      await definition.execute(this.createStageContext(stage));
+    } catch (error) {
+      logger.error(`❌ Stage "${stage}" failed`, { error });
+      this.stats.errors++;
+      reportingService.addError(
+        `Stage "${stage}" failed: ${(error as Error)?.message || error}`
+      );
+      reportingService.markStageFailed(stage);
+      await reportingService.save();
+      return;
+    }
+    reportingService.markStageExecuted(stage);
+
+    // Interrupted or deferred stages stay open so a resumed run picks them up again
+    if (
+      !this.isShuttingDown &&
+      !this.isDryRun(stage) &&
+      !timeBudgetService.isDeferred(stage)
+    ) {
+      await checkpointService.complete(stage);
+    }
+  }
+
+  private isDryRun(stage: PipelineStage): boolean {
+    return isStageDryRun(this.selection, stage);
+  }
+
   // Test all external connections with graceful degradation
+  // Transcript providers are only tested when a transcript-fetching stage runs,
+  // since some provider tests consume credits
   private async testConnections(): Promise<void> {
     logger.info("🔗 Testing external connections...");
 
+    const needsYouTube = [
+      "channels",
+      "gap_detection",
+      "live_videos",
+      "availability",
+      "offerings",
+    ].some(
+      (stage) => isStageSelected(this.selection, stage as PipelineStage)
+    );
+    const needsTranscripts = TRANSCRIPT_STAGES.some(
+      (stage) =>
+        isStageSelected(this.selection, stage) && !this.isDryRun(stage)
+    );
+
     // ========== ESSENTIAL SERVICES (Must Pass) ==========
     logger.info("🔑 Testing essential services...");
-    const essentialServices = [
-      { name: "Supabase", service: supabaseService },
-      { name: "YouTube API", service: youtubeService },
-    ];
+    const essentialServices: Array<{
+      name: string;
+      service: { testConnection(): Promise<boolean> };
+    }> = [{ name: "Supabase", service: supabaseService }];
+    if (needsYouTube) {
+      essentialServices.push({ name: "YouTube API", service: youtubeService });
+    }
 
     for (const { name, service } of essentialServices) {
       try {
-        await service.testConnection();
+        if (service.testConnection && !(await service.testConnection())) {
+          throw new Error("Connection test failed");
+        }
         logger.info(`✅ ${name} connection successful`);
       } catch (error) {
         logger.error(`❌ ${name} connection failed`, { error });
@@ -122,25 +583,42 @@ class FinfluencerTracker {
       }
     }
 
+    // Quota already spent today by earlier runs and scripts
+    if (needsYouTube) {
+      for (const apiKey of config.youtubeApiKeys) {
+        await youtubeQuotaService.refresh(apiKey);
+        const quota = youtubeQuotaService.getUsage(apiKey);
+        logger.info(
+          `📈 YouTube quota today (${quota.day} PT), key ${quota.key_id}: ${quota.used}/${quota.limit} units (${quota.percentage}%)`,
+          { byMethod: quota.by_method }
+        );
+      }
+    }
+
+    if (!needsTranscripts) {
+      logger.info(
+        "⏭️ No transcript-fetching stage selected, skipping transcript service tests"
+      );
+      return;
+    }
+
     // ========== OPTIONAL TRANSCRIPT SERVICES (With Fallbacks) ==========
-    logger.info("🎯 Testing optional transcript services...");
-    const transcriptServices = [
-      {
-        name: "RapidAPI",
-        service: rapidapiService,
-        isConfigured: () => rapidapiService.isConfigured(),
-      },
-      {
-        name: "Supadata Direct",
-        service: supadataService,
-        isConfigured: () => supadataService.isConfigured(),
-      },
-      {
-        name: "TranscriptAPI",
-        service: transcriptAPIService,
-        isConfigured: () => transcriptAPIService.isConfigured(),
-      },
-    ];
+    transcriptProviderRegistry.validateOrder(
+      config.transcripts.providers,
+      "TRANSCRIPT_PROVIDERS"
+    );
+    logger.info(
+      `🎯 Testing optional transcript services (${config.transcripts.providers.join(
+        " → "
+      )})...`
+    );
+    const transcriptServices = transcriptProviderRegistry
+      .getChain()
+      .map((provider) => ({
+        name: provider.label,
+        service: provider,
+        isConfigured: () => provider.isConfigured(),
+      }));
 
     let availableTranscriptServices = 0;
     let transcriptServiceResults: Array<{
@@ -161,7 +639,8 @@ class FinfluencerTracker {
       }
 
       try {
-        await service.testConnection();
+        // testConnection() is optional for registered providers
+        if (service.testConnection) await service.testConnection();
         logger.info(`✅ ${name} connection successful`);
         transcriptServiceResults.push({ name, success: true });
         availableTranscriptServices++;
@@ -242,9 +721,22 @@ class FinfluencerTracker {
 
     logger.info(`📺 Found ${channels.length} active channels to process`);
 
+    if (this.isDryRun("channels")) {
+      await this.previewChannels(channels);
+      return;
+    }
+
+    // A cursor on the channels checkpoint means metadata was already refreshed
+    // by an earlier segment of this run
+    const metadataDone = checkpointService.get("channels")?.cursor != null;
+
     // FIRST: Update metadata for ALL active channels
-    logger.info("🔄 Updating channel metadata for all active channels...");
-    for (const channel of channels) {
+    if (metadataDone) {
+      logger.info("⏩ Channel metadata already updated in this run, skipping");
+    } else {
+      logger.info("🔄 Updating channel metadata for all active channels...");
+    }
+    for (const channel of metadataDone ? [] : channels) {
       if (this.isShuttingDown) break;
       try {
         const details = await youtubeService.getChannelDetails(
@@ -280,32 +772,344 @@ class FinfluencerTracker {
       // Small delay to respect rate limits
       await new Promise((resolve) => setTimeout(resolve, 200));
     }
-    logger.info("✅ Channel metadata update completed");
+    if (!metadataDone && !this.isShuttingDown) {
+      logger.info("✅ Channel metadata update completed");
+      await checkpointService.commit("channels", { cursor: "metadata" });
+    }
+
+    // Channels deferred by the previous run go first
+    const priorityIds = timeBudgetService.getPriorityIds("channels");
+    channels.sort(
+      (a, b) =>
+        Number(priorityIds.includes(b.channel_id.trim())) -
+        Number(priorityIds.includes(a.channel_id.trim()))
+    );
+
+    // Channels run in a bounded pool; each worker shares the provider rate
+    // limiters and circuit breakers, and failures stay per channel
+    const started = new Set<string>();
+    let exhausted: ReturnType<typeof timeBudgetService.isExhausted> = null;
+    const shouldStop = () => {
+      if (this.isShuttingDown) return true;
+      exhausted = exhausted || timeBudgetService.isExhausted("channels");
+      return exhausted !== null;
+    };
+
+    await runWithWorkerPool(
+      channels,
+      config.concurrency.channels,
+      async (channel) => {
+        channel.channel_id = channel.channel_id.trim();
+        started.add(channel.channel_id);
+        if (checkpointService.isProcessed("channels", channel.channel_id)) {
+          logger.info(
+            `⏩ Channel ${channel.channel_name} already processed in this run, skipping`
+          );
+          return;
+        }
+
+        try {
+          await this.processChannel(channel);
+          this.stats.processed_channels++;
+          reportingService.incrementChannelsProcessed();
+
+          // Only fully processed channels are checkpointed (by ID: channels
+          // finish out of order, the cursor only marks the metadata step)
+          if (!this.isShuttingDown) {
+            await checkpointService.commit("channels", {
+              processedIds: [channel.channel_id],
+            });
+          }
+        } catch (error) {
+          logger.error(`Failed to process channel ${channel.channel_id}`, {
+            error,
+          });
+          this.stats.errors++;
+          reportingService.incrementChannelErrors();
+        }
+
+        // Save progress periodically (after each channel)
+        await reportingService.save();
+
+        // Small delay between channels to avoid rate limiting
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      },
+      shouldStop
+    );
+
+    if (this.isShuttingDown) {
+      logger.info("Shutdown requested, stopped channel processing");
+    } else if (exhausted) {
+      timeBudgetService.defer(
+        "channels",
+        exhausted,
+        this.pendingChannelIds(
+          "channels",
+          channels.filter((c) => !started.has(c.channel_id.trim()))
+        )
+      );
+    }
+  }
 
+  // Channel IDs a stage has not handled yet (for time budget deferral)
+  private pendingChannelIds(
+    stage: PipelineStage,
+    channels: FinfluencerChannel[]
+  ): string[] {
+    return channels
+      .map((channel) => channel.channel_id.trim())
+      .filter((id) => !checkpointService.isProcessed(stage, id));
+  }
+
+  // DRY RUN: List new videos per channel without fetching transcripts or writing
+  private async previewChannels(channels: any[]): Promise<void> {
     for (const channel of channels) {
-      if (this.isShuttingDown) {
-        logger.info("Shutdown requested, stopping channel processing");
+      if (this.isShuttingDown) break;
+
+      try {
+        const lastChecked = channel.last_checked_at
+          ? new Date(channel.last_checked_at)
+          : new Date(config.startDate);
+        const playlists = await supabaseService.getTrackedPlaylists(
+          channel.channel_id
+        );
+        const videos =
+          playlists.length > 0
+            ? (await this.fetchPlaylistVideos(channel, playlists)).videos
+            : await youtubeService.getChannelVideos(
+                channel.channel_id.trim(),
+                lastChecked,
+                undefined,
+                YouTubeService.getDiscoveryMode(channel)
+              );
+        const candidates = videos
+          .filter((video) => !YouTubeService.getDeferralReason(video))
+          .filter((video) => {
+            const duration = video.duration
+              ? parseYouTubeDuration(video.duration)
+              : 0;
+            return duration >= 60;
+          });
+
+        this.stats.total_videos += candidates.length;
+        reportingService.setTotalVideos(this.stats.total_videos);
+        reportingService.incrementChannelsProcessed();
+
+        logger.info(
+          `🧪 [DRY RUN] ${channel.channel_name}: ${candidates.length} new video(s) would be processed`,
+          {
+            channelId: channel.channel_id,
+            videos: candidates.map((v) => `${v.videoId} ${v.title}`),
+          }
+        );
+      } catch (error) {
+        logger.error(`[DRY RUN] Failed to list videos for ${channel.channel_id}`, {
+          error,
+        });
+        reportingService.incrementChannelErrors();
+      }
+    }
+  }
+
+  // Queue live streams, premieres and just-ended streams in deferred_videos
+  // Returns the videos that can be processed now
+  private async deferLiveVideos(
+    videos: YouTubeVideo[],
+    channel: any
+  ): Promise<YouTubeVideo[]> {
+    const ready: YouTubeVideo[] = [];
+
+    for (const video of videos) {
+      const reason = YouTubeService.getDeferralReason(video);
+      if (!reason) {
+        ready.push(video);
+        continue;
+      }
+
+      const queued = await deferredVideoService.defer(
+        video,
+        channel.channel_id,
+        reason
+      );
+      if (queued) {
+        reportingService.incrementSection("live_videos", "queued");
+      }
+    }
+
+    return ready;
+  }
+
+  // LIVE VIDEOS: Re-check deferred live streams and premieres, process those
+  // that ended and had time to get captions
+  private async processDeferredVideos(ctx: StageContext): Promise<void> {
+    const due = (await deferredVideoService.getDue()).filter(
+      (record) => !ctx.isProcessed(record.video_id)
+    );
+
+    if (due.length === 0) {
+      logger.info("📡 No deferred live videos due for a re-check");
+      return;
+    }
+
+    if (ctx.dryRun) {
+      logger.info(
+        `🧪 [DRY RUN] Would re-check ${due.length} deferred live video(s)`,
+        { videos: due.map((record) => `${record.video_id} ${record.reason}`) }
+      );
+      return;
+    }
+
+    logger.info(`📡 Re-checking ${due.length} deferred live video(s)`);
+
+    const videos = await youtubeService.getVideosMetadata(
+      due.map((record) => record.video_id)
+    );
+    const videosById = new Map(videos.map((video) => [video.videoId, video]));
+    const channels = await supabaseService.getActiveChannels();
+    const channelsById = new Map(
+      channels.map((channel) => [channel.channel_id.trim(), channel])
+    );
+
+    for (let i = 0; i < due.length; i++) {
+      if (ctx.shouldStop()) {
+        ctx.defer(due.slice(i).map((record) => record.video_id));
         break;
       }
 
+      const record = due[i];
+      const video = videosById.get(record.video_id);
+      const channel = channelsById.get(record.channel_id.trim());
+      ctx.report.increment("rechecked");
+
+      if (!video || !channel) {
+        await deferredVideoService.resolve(
+          record.video_id,
+          "expired",
+          video ? "channel inactive" : "video unavailable"
+        );
+        ctx.report.increment("expired");
+        await ctx.commit({ processedIds: [record.video_id] });
+        continue;
+      }
+
+      const reason = YouTubeService.getDeferralReason(video);
+      if (reason) {
+        const waiting = await deferredVideoService.reschedule(
+          record,
+          reason,
+          video
+        );
+        ctx.report.increment(waiting ? "still_waiting" : "expired");
+        await ctx.commit({ processedIds: [record.video_id] });
+        continue;
+      }
+
+      const duration = video.duration
+        ? parseYouTubeDuration(video.duration)
+        : 0;
+      if (duration < 60) {
+        await deferredVideoService.resolve(
+          record.video_id,
+          "expired",
+          "shorter than 1 minute"
+        );
+        ctx.report.increment("expired");
+        await ctx.commit({ processedIds: [record.video_id] });
+        continue;
+      }
+
       try {
-        channel.channel_id = channel.channel_id.trim();
-        await this.processChannel(channel);
-        this.stats.processed_channels++;
-        reportingService.incrementChannelsProcessed();
+        // Keep the original publish date, not when the stream went live
+        video.publishedAt = record.published_at || video.publishedAt;
+        await this.processVideo(video, channel, { updateLastChecked: false });
+        await deferredVideoService.resolve(record.video_id, "processed");
+        ctx.report.increment("processed");
+        this.stats.processed_videos++;
+        reportingService.incrementVideosProcessed();
       } catch (error) {
-        logger.error(`Failed to process channel ${channel.channel_id}`, {
+        logger.error(`Failed to process deferred video ${record.video_id}`, {
           error,
         });
         this.stats.errors++;
-        reportingService.incrementChannelErrors();
+        reportingService.incrementVideoErrors();
+        const retrying = await deferredVideoService.recordFailure(
+          record,
+          (error as Error).message
+        );
+        if (!retrying) ctx.report.increment("expired");
       }
+      await ctx.commit({ processedIds: [record.video_id] });
+    }
+  }
 
-      // Save progress periodically (after each channel)
-      await reportingService.save();
+  // BACKFILL: Process videos queued by the backfill command; every attempted
+  // video is saved on its job, so an interrupted job continues where it stopped
+  private async processBackfillJobs(ctx: StageContext): Promise<void> {
+    const jobs = await backfillService.getPendingJobs();
+    if (jobs.length === 0) {
+      logger.info("📚 No pending backfill jobs");
+      return;
+    }
 
-      // Small delay between channels to avoid rate limiting
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+    if (ctx.dryRun) {
+      logger.info(`🧪 [DRY RUN] Would continue ${jobs.length} backfill job(s)`, {
+        jobs: jobs.map(
+          (job) =>
+            `${job.id} ${job.channel_id} ${job.processed_ids.length}/${job.videos.length}`
+        ),
+      });
+      return;
+    }
+
+    for (const job of jobs) {
+      const channel = await supabaseService.getChannel(job.channel_id);
+      if (!channel) {
+        logger.warn(
+          `📚 Backfill job ${job.id}: channel ${job.channel_id} is no longer tracked, skipping`
+        );
+        continue;
+      }
+
+      const done = new Set(job.processed_ids);
+      const remaining = job.videos.filter((video) => !done.has(video.videoId));
+      ctx.report.increment("jobs");
+      logger.info(
+        `📚 Backfill job ${job.id}: ${remaining.length}/${job.videos.length} video(s) left for ${channel.channel_name}`
+      );
+
+      for (let i = 0; i < remaining.length; i++) {
+        if (ctx.shouldStop()) {
+          ctx.defer(remaining.slice(i).map((video) => video.videoId));
+          return;
+        }
+
+        const video = remaining[i];
+        try {
+          // Older videos must not move the channel's cursor
+          await this.processVideo(video, channel, { updateLastChecked: false });
+          ctx.report.increment("processed");
+          this.stats.processed_videos++;
+          reportingService.incrementVideosProcessed();
+        } catch (error) {
+          logger.error(`Failed to backfill video ${video.videoId}`, { error });
+          job.failed_ids.push(video.videoId);
+          ctx.report.increment("failed");
+          this.stats.errors++;
+        }
+
+        job.processed_ids.push(video.videoId);
+        await backfillService.saveProgress(job);
+        await ctx.commit({ processedIds: [video.videoId] });
+      }
+
+      // Every video was attempted before (the completing save had failed)
+      if (remaining.length === 0) await backfillService.saveProgress(job);
+      if (job.status === "completed") {
+        ctx.report.increment("jobs_completed");
+        logger.info(
+          `✅ Backfill job ${job.id} completed (${job.failed_ids.length} failed)`
+        );
+      }
     }
   }
 
@@ -320,21 +1124,42 @@ class FinfluencerTracker {
       let totalMissed = 0;
       let totalProcessed = 0;
 
-      for (const channel of channels) {
+      // Channels deferred by the previous run go first
+      const priorityIds = timeBudgetService.getPriorityIds("gap_detection");
+      channels.sort(
+        (a, b) =>
+          Number(priorityIds.includes(b.channel_id.trim())) -
+          Number(priorityIds.includes(a.channel_id.trim()))
+      );
+
+      // Resume after the last checkpointed channel (from the start when it is
+      // no longer active)
+      const cursor = checkpointService.get("gap_detection")?.cursor;
+      const resumeIndex = cursor
+        ? channels.findIndex((c) => c.channel_id.trim() === cursor.trim()) + 1
+        : 0;
+      if (resumeIndex > 0) {
+        logger.info(
+          `⏩ Resuming gap detection after ${channels[resumeIndex - 1].channel_name} (${resumeIndex}/${channels.length} done)`
+        );
+      }
+      const pending = channels.slice(resumeIndex);
+
+      for (const [index, channel] of pending.entries()) {
         if (this.isShuttingDown) break;
 
-        try {
-          // 1. Get ALL videos from YouTube since START_DATE
-          const allYouTubeVideos = await youtubeService.getChannelVideos(
-            channel.channel_id.trim(),
-            startDate
+        const exhausted = timeBudgetService.isExhausted("gap_detection");
+        if (exhausted) {
+          timeBudgetService.defer(
+            "gap_detection",
+            exhausted,
+            this.pendingChannelIds("gap_detection", pending.slice(index))
           );
+          break;
+        }
 
-          if (allYouTubeVideos.length === 0) {
-            continue;
-          }
-
-          // 2. Get all video IDs we have in the database for this channel
+        try {
+          // 1. Get all video IDs we have in the database for this channel
           const { data: dbVideos, error } = await supabaseService
             .getClient()
             .from("finfluencer_predictions")
@@ -349,59 +1174,56 @@ class FinfluencerTracker {
             continue;
           }
 
-          const dbVideoIds = new Set(dbVideos?.map((v) => v.video_id) || []);
-
-          // 3. Find videos that exist on YouTube but not in our database
-          const missedVideos = allYouTubeVideos.filter(
-            (video) => !dbVideoIds.has(video.videoId)
+          const dbVideoIds = new Set<string>(
+            dbVideos?.map((v) => v.video_id) || []
           );
 
-          if (missedVideos.length === 0) {
-            logger.debug(
-              `✅ No missed videos for ${channel.channel_name} (${allYouTubeVideos.length} videos checked)`
-            );
-            continue;
-          }
-
-          logger.warn(
-            `⚠️ Found ${missedVideos.length} missed videos for ${channel.channel_name}`,
-            {
-              channelId: channel.channel_id,
-              totalYouTube: allYouTubeVideos.length,
-              totalDB: dbVideoIds.size,
-              missedCount: missedVideos.length,
-            }
+          // 2. Compare every scope with the database: the channel's uploads,
+          // or each tracked playlist of a playlist-scoped channel
+          const playlists = await supabaseService.getTrackedPlaylists(
+            channel.channel_id
           );
-
-          totalMissed += missedVideos.length;
-
-          // 4. Process each missed video
-          for (const video of missedVideos) {
+          const scopes =
+            playlists.length > 0
+              ? playlists.map((playlist) => ({
+                  label: `${channel.channel_name} / ${
+                    playlist.title || playlist.playlist_id
+                  }`,
+                  fetch: async () =>
+                    (
+                      await youtubeService.getPlaylistVideos(
+                        playlist.playlist_id,
+                        { publishedAfter: startDate }
+                      )
+                    ).videos,
+                }))
+              : [
+                  {
+                    label: channel.channel_name,
+                    fetch: () =>
+                      youtubeService.getChannelVideos(
+                        channel.channel_id.trim(),
+                        startDate
+                      ),
+                  },
+                ];
+
+          for (const scope of scopes) {
             if (this.isShuttingDown) break;
 
             try {
-              logger.info(
-                `🔄 Processing missed video: ${video.title} (${video.videoId})`,
-                {
-                  publishedAt: video.publishedAt,
-                  channelName: channel.channel_name,
-                }
+              const result = await this.processMissedVideos(
+                channel,
+                scope.label,
+                await scope.fetch(),
+                dbVideoIds
               );
-
-              // Use the existing processVideo function
-              await this.processVideo(video, channel);
-              totalProcessed++;
-
-              // Track in reporting
-              reportingService.incrementVideosProcessed();
-
-              // Rate limiting delay
-              await new Promise((resolve) => setTimeout(resolve, 2000));
-            } catch (videoError) {
-              logger.error(`Failed to process missed video ${video.videoId}`, {
-                error: videoError,
+              totalMissed += result.missed;
+              totalProcessed += result.processed;
+            } catch (scopeError) {
+              logger.error(`Gap detection failed for ${scope.label}`, {
+                error: scopeError,
               });
-              this.stats.errors++;
             }
           }
         } catch (channelError) {
@@ -411,24 +1233,100 @@ class FinfluencerTracker {
           );
         }
 
-        // Delay between channels
-        await new Promise((resolve) => setTimeout(resolve, 1000));
-      }
+        if (!this.isShuttingDown && !this.isDryRun("gap_detection")) {
+          await checkpointService.commit("gap_detection", {
+            cursor: channel.channel_id,
+          });
+        }
+
+        // Delay between channels
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      }
+
+      if (totalMissed > 0) {
+        logger.info(`✅ Gap detection completed`, {
+          totalMissedFound: totalMissed,
+          totalProcessed,
+          totalFailed: totalMissed - totalProcessed,
+        });
+      } else {
+        logger.info("✅ Gap detection completed - no missed videos found");
+      }
+    } catch (error) {
+      logger.error("❌ Gap detection failed", { error });
+      this.stats.errors++;
+      // Don't throw - gap detection failures shouldn't stop the main process
+    }
+  }
+
+  // Gap detection for one scope (uploads or a tracked playlist): process the
+  // videos YouTube lists that are not in the database yet
+  private async processMissedVideos(
+    channel: any,
+    label: string,
+    allYouTubeVideos: YouTubeVideo[],
+    dbVideoIds: Set<string>
+  ): Promise<{ missed: number; processed: number }> {
+    // Find videos that exist on YouTube but not in our database
+    const missedVideos = allYouTubeVideos.filter(
+      (video) => !dbVideoIds.has(video.videoId)
+    );
+
+    if (missedVideos.length === 0) {
+      logger.debug(
+        `✅ No missed videos for ${label} (${allYouTubeVideos.length} videos checked)`
+      );
+      return { missed: 0, processed: 0 };
+    }
+
+    logger.warn(`⚠️ Found ${missedVideos.length} missed videos for ${label}`, {
+      channelId: channel.channel_id,
+      totalYouTube: allYouTubeVideos.length,
+      totalDB: dbVideoIds.size,
+      missedCount: missedVideos.length,
+    });
+
+    if (this.isDryRun("gap_detection")) {
+      logger.info(
+        `🧪 [DRY RUN] Would process ${missedVideos.length} missed video(s) for ${label}`,
+        { videos: missedVideos.map((v) => `${v.videoId} ${v.title}`) }
+      );
+      return { missed: missedVideos.length, processed: 0 };
+    }
+
+    let processed = 0;
+    for (const video of missedVideos) {
+      if (this.isShuttingDown) break;
+
+      try {
+        logger.info(
+          `🔄 Processing missed video: ${video.title} (${video.videoId})`,
+          {
+            publishedAt: video.publishedAt,
+            channelName: channel.channel_name,
+          }
+        );
+
+        // Use the existing processVideo function
+        await this.processVideo(video, channel);
+        processed++;
+        // A video in several tracked playlists is only processed once
+        dbVideoIds.add(video.videoId);
 
-      if (totalMissed > 0) {
-        logger.info(`✅ Gap detection completed`, {
-          totalMissedFound: totalMissed,
-          totalProcessed,
-          totalFailed: totalMissed - totalProcessed,
+        // Track in reporting
+        reportingService.incrementVideosProcessed();
+
+        // Rate limiting delay
+        await new Promise((resolve) => setTimeout(resolve, 2000));
+      } catch (videoError) {
+        logger.error(`Failed to process missed video ${video.videoId}`, {
+          error: videoError,
         });
-      } else {
-        logger.info("✅ Gap detection completed - no missed videos found");
+        this.stats.errors++;
       }
-    } catch (error) {
-      logger.error("❌ Gap detection failed", { error });
-      this.stats.errors++;
-      // Don't throw - gap detection failures shouldn't stop the main process
     }
+
+    return { missed: missedVideos.length, processed };
   }
 
   // Process failed predictions during idle time
@@ -453,8 +1351,27 @@ class FinfluencerTracker {
         }
       );
 
-      // Process failed predictions
-      await retryService.processFailedPredictions();
+      if (this.isDryRun("retries")) {
+        logger.info(
+          `🧪 [DRY RUN] Would retry ${retryStats.totalEligible} failed prediction(s)`
+        );
+        return;
+      }
+
+      // Process failed predictions (stops between batches on shutdown or when
+      // the budget runs out)
+      const pendingIds = await retryService.processFailedPredictions({
+        shouldStop: () =>
+          this.isShuttingDown ||
+          timeBudgetService.isExhausted("retries") !== null,
+        priorityIds: timeBudgetService.getPriorityIds("retries"),
+      });
+
+      const exhausted = timeBudgetService.isExhausted("retries");
+      if (pendingIds.length > 0 && exhausted) {
+        timeBudgetService.defer("retries", exhausted, pendingIds);
+        return;
+      }
 
       // Get updated statistics
       const finalStats = await retryService.getRetryStatistics();
@@ -474,23 +1391,53 @@ class FinfluencerTracker {
     try {
       logger.info("🔍 Analyzing unprocessed transcripts...");
 
+      if (this.isDryRun("analysis")) {
+        const { count, error } = await this.queryUnprocessedTranscripts({
+          count: "exact",
+          head: true,
+        });
+
+        if (error) {
+          logger.error("Failed to count unprocessed transcripts", { error });
+        } else {
+          logger.info(
+            `🧪 [DRY RUN] Would analyze ${count ?? 0} unprocessed transcript(s)`
+          );
+        }
+        return;
+      }
+
       const BATCH_SIZE = 50; // Process in batches of 50
-      let offset = 0;
+      // Keyset pagination on (created_at, id): analyzed rows leave the result
+      // set, so an offset would skip rows. Resume after the last committed key.
+      let lastKey = this.parseAnalysisCursor(
+        checkpointService.get("analysis")?.cursor
+      );
+      let batchNumber = 0;
       let totalAnalyzed = 0;
       let hasMoreRecords = true;
 
+      if (lastKey) {
+        logger.info(
+          `⏩ Resuming transcript analysis after ${lastKey.created_at} (${lastKey.id})`
+        );
+      }
+
+      // Records deferred by the previous run are analyzed before paging
+      totalAnalyzed += await this.analyzeDeferredTranscripts();
+      hasMoreRecords = !timeBudgetService.isDeferred("analysis");
+
       while (hasMoreRecords) {
-        // Query for records with transcripts but no analysis (subject_outcome is NULL or ai_model is NULL)
-        const { data: unprocessedRecords, error: queryError } =
-          await supabaseService
-            .getClient()
-            .from("finfluencer_predictions")
-            .select("*")
-            .is("subject_outcome", null)
-            .or("ai_model.is.null")
-            .not("raw_transcript", "is", null)
-            .order("created_at", { ascending: true })
-            .range(offset, offset + BATCH_SIZE - 1); // Pagination instead of limit
+        let query = this.queryUnprocessedTranscripts();
+        if (lastKey) {
+          query = query.or(
+            `created_at.gt."${lastKey.created_at}",and(created_at.eq."${lastKey.created_at}",id.gt."${lastKey.id}")`
+          );
+        }
+        const { data: unprocessedRecords, error: queryError } = await query
+          .order("created_at", { ascending: true })
+          .order("id", { ascending: true })
+          .limit(BATCH_SIZE);
 
         if (queryError) {
           logger.error("Failed to query unprocessed transcripts", {
@@ -505,88 +1452,45 @@ class FinfluencerTracker {
           break;
         }
 
-        const batchNumber = Math.floor(offset / BATCH_SIZE) + 1;
+        batchNumber++;
         logger.info(
           `📝 Processing batch ${batchNumber}: Found ${unprocessedRecords.length} unprocessed transcripts`,
           {
             batchNumber,
             count: unprocessedRecords.length,
-            offset,
+            after: lastKey,
           }
         );
 
         let analyzedCount = 0;
         let failedCount = 0;
 
-        for (const record of unprocessedRecords) {
-          try {
-            if (!record.raw_transcript) {
-              logger.warn(
-                `⚠️ Record ${record.id} has no transcript content, skipping`
-              );
-              continue;
-            }
+        const handledIds: string[] = [];
 
-            logger.info(
-              `📊 Analyzing unprocessed transcript: ${record.video_id}`,
-              {
-                videoId: record.video_id,
-                channelId: record.channel_id,
-              }
-            );
+        for (const [index, record] of unprocessedRecords.entries()) {
+          if (this.isShuttingDown) break;
 
-            // Run AI analysis
-            const analysis = await globalAIAnalyzer.analyzeTranscript(
-              record.raw_transcript,
-              record.language || "english"
+          const exhausted = timeBudgetService.isExhausted("analysis");
+          if (exhausted) {
+            timeBudgetService.defer(
+              "analysis",
+              exhausted,
+              unprocessedRecords
+                .slice(index)
+                .map((r) => String(r.id))
+                .filter((id) => !checkpointService.isProcessed("analysis", id))
             );
+            break;
+          }
 
-            if (!analysis) {
-              logger.warn(
-                `⚠️ No analysis produced for video ${record.video_id}`
-              );
-              failedCount++;
-              continue;
-            }
-
-            // Update the record with analysis results
-            const { error: updateError } = await supabaseService
-              .getClient()
-              .from("finfluencer_predictions")
-              .update({
-                subject_outcome: analysis.subject_outcome || "analyzed",
-                predictions: analysis.predictions || [],
-                ai_modifications: analysis.ai_modifications || [],
-                ai_model: globalAIAnalyzer.getModelName(),
-                language: record.language || "english",
-                transcript_length: record.raw_transcript.length,
-                predictions_found: (analysis.predictions || []).length,
-                quality_score: analysis.quality_score,
-                quality_breakdown: analysis.quality_breakdown,
-              })
-              .eq("id", record.id);
-
-            if (updateError) {
-              logger.error(`Failed to update record ${record.id}`, {
-                error: updateError,
-              });
-              failedCount++;
-              continue;
-            }
-
-            analyzedCount++;
-            logger.info(`✅ Updated record with analysis results`, {
-              videoId: record.video_id,
-              predictionsFound: (analysis.predictions || []).length,
-            });
-          } catch (error) {
-            logger.error(
-              `Failed to analyze transcript for ${record.video_id}`,
-              { error }
-            );
-            failedCount++;
+          if (checkpointService.isProcessed("analysis", String(record.id))) {
             continue;
           }
+          handledIds.push(String(record.id));
+
+          const outcome = await this.analyzeUnprocessedRecord(record);
+          if (outcome === "analyzed") analyzedCount++;
+          if (outcome === "failed") failedCount++;
         }
 
         totalAnalyzed += analyzedCount;
@@ -601,8 +1505,19 @@ class FinfluencerTracker {
         // Update statistics
         this.stats.processed_videos += analyzedCount;
 
+        if (this.isShuttingDown || timeBudgetService.isDeferred("analysis")) {
+          await checkpointService.commit("analysis", {
+            processedIds: handledIds,
+          });
+          break;
+        }
+
         // Move to next batch
-        offset += BATCH_SIZE;
+        const last = unprocessedRecords[unprocessedRecords.length - 1];
+        lastKey = { created_at: last.created_at, id: String(last.id) };
+        await checkpointService.commit("analysis", {
+          cursor: JSON.stringify(lastKey),
+        });
 
         // If batch wasn't full, we've processed all records
         if (unprocessedRecords.length < BATCH_SIZE) {
@@ -625,10 +1540,168 @@ class FinfluencerTracker {
     }
   }
 
+  // Query for records with transcripts but no analysis (subject_outcome is NULL or ai_model is NULL)
+  // Shared by the paging loop, deferred records and the dry-run count so all
+  // of them select the same rows
+  private queryUnprocessedTranscripts(options?: {
+    count?: "exact";
+    head?: boolean;
+  }) {
+    return supabaseService
+      .getClient()
+      .from("finfluencer_predictions")
+      .select("*", options)
+      .is("subject_outcome", null)
+      .or("ai_model.is.null")
+      .not("raw_transcript", "is", null);
+  }
+
+  // Last (created_at, id) key of the analysis checkpoint, null when absent or
+  // written by an older version (offset cursors)
+  private parseAnalysisCursor(
+    cursor: string | null | undefined
+  ): { created_at: string; id: string } | null {
+    if (!cursor) return null;
+    try {
+      const key = JSON.parse(cursor);
+      return key && typeof key.created_at === "string" && key.id != null
+        ? { created_at: key.created_at, id: String(key.id) }
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Analyze transcripts the previous run deferred when its time budget ran out
+  // Returns the number of records analyzed
+  private async analyzeDeferredTranscripts(): Promise<number> {
+    const priorityIds = timeBudgetService
+      .getPriorityIds("analysis")
+      .filter((id) => !checkpointService.isProcessed("analysis", id));
+    if (priorityIds.length === 0) return 0;
+
+    const { data: records, error } = await this.queryUnprocessedTranscripts().in(
+      "id",
+      priorityIds
+    );
+
+    if (error) {
+      logger.error("Failed to load deferred transcripts", { error });
+      return 0;
+    }
+
+    logger.info(`⏱️ Analyzing ${records?.length || 0} deferred transcript(s)`);
+
+    let analyzed = 0;
+    const handledIds: string[] = [];
+
+    for (const [index, record] of (records || []).entries()) {
+      if (this.isShuttingDown) break;
+
+      const exhausted = timeBudgetService.isExhausted("analysis");
+      if (exhausted) {
+        timeBudgetService.defer(
+          "analysis",
+          exhausted,
+          records.slice(index).map((r) => String(r.id))
+        );
+        break;
+      }
+
+      handledIds.push(String(record.id));
+      if ((await this.analyzeUnprocessedRecord(record)) === "analyzed") {
+        analyzed++;
+      }
+    }
+
+    this.stats.processed_videos += analyzed;
+    await checkpointService.commit("analysis", { processedIds: handledIds });
+    return analyzed;
+  }
+
+  // Analyze a single stored transcript and write the results back
+  private async analyzeUnprocessedRecord(
+    record: any
+  ): Promise<"analyzed" | "failed" | "skipped"> {
+    try {
+      if (!record.raw_transcript) {
+        logger.warn(
+          `⚠️ Record ${record.id} has no transcript content, skipping`
+        );
+        return "skipped";
+      }
+
+      logger.info(
+        `📊 Analyzing unprocessed transcript: ${record.video_id}`,
+        {
+          videoId: record.video_id,
+          channelId: record.channel_id,
+        }
+      );
+
+      // Run AI analysis
+      const analysis = await globalAIAnalyzer.analyzeTranscript(
+        record.raw_transcript,
+        {
+          videoId: record.video_id,
+          title: record.video_title,
+          channelId: record.channel_id,
+          channelName: record.channel_name,
+          publishedAt: record.post_date,
+        }
+      );
+
+      if (!analysis) {
+        logger.warn(
+          `⚠️ No analysis produced for video ${record.video_id}`
+        );
+        return "failed";
+      }
+
+      // Update the record with analysis results
+      const { error: updateError } = await supabaseService
+        .getClient()
+        .from("finfluencer_predictions")
+        .update({
+          subject_outcome: analysis.subject_outcome || "analyzed",
+          predictions: analysis.predictions || [],
+          ai_modifications: analysis.ai_modifications || [],
+          ai_model: globalAIAnalyzer.getModelName(),
+          language: record.language || "english",
+          transcript_length: record.raw_transcript.length,
+          predictions_found: (analysis.predictions || []).length,
+          quality_score: analysis.quality_score,
+          quality_breakdown: analysis.quality_breakdown,
+        })
+        .eq("id", record.id);
+
+      if (updateError) {
+        logger.error(`Failed to update record ${record.id}`, {
+          error: updateError,
+        });
+        return "failed";
+      }
+
+      logger.info(`✅ Updated record with analysis results`, {
+        videoId: record.video_id,
+        predictionsFound: (analysis.predictions || []).length,
+      });
+      return "analyzed";
+    } catch (error) {
+      logger.error(
+        `Failed to analyze transcript for ${record.video_id}`,
+        { error }
+      );
+      return "failed";
+    }
+  }
+
   // Process combined predictions with AI enrichment and price data
   // REFACTORED: Now loops until ALL records are processed (no artificial limit)
+  // Dry run processes a single batch since nothing is written back
   private async processCombinedPredictions(): Promise<void> {
     try {
+      const dryRun = this.isDryRun("combined");
       logger.info("🔀 Starting combined predictions processing (ALL records)");
 
       const BATCH_SIZE = 500; // Process in batches of 500
@@ -642,6 +1715,12 @@ class FinfluencerTracker {
 
       // Loop until all unprocessed predictions are handled
       while (hasMoreRecords) {
+        const exhausted = timeBudgetService.isExhausted("combined");
+        if (exhausted) {
+          timeBudgetService.defer("combined", exhausted);
+          break;
+        }
+
         batchNumber++;
         const batchRequestId = `cron_${Date.now()}_batch${batchNumber}`;
 
@@ -652,7 +1731,7 @@ class FinfluencerTracker {
         const result = await combinedPredictionsService.processPredictions({
           limit: BATCH_SIZE,
           skipPrice: false,
-          dryRun: false,
+          dryRun,
           concurrency: 3,
           retryCount: 3,
           requestId: batchRequestId,
@@ -671,7 +1750,7 @@ class FinfluencerTracker {
         });
 
         // If we processed fewer records than batch size, we're done
-        if (result.processed_records < BATCH_SIZE) {
+        if (result.processed_records < BATCH_SIZE || dryRun) {
           hasMoreRecords = false;
         }
 
@@ -695,9 +1774,6 @@ class FinfluencerTracker {
 
       // Update statistics
       this.stats.processed_videos += totalInserted;
-
-      // RECONCILIATION: Loop until ALL pending predictions are verified
-      await this.reconcileAllPredictions();
     } catch (error) {
       logger.error("❌ Combined predictions processing failed", { error });
       this.stats.errors++;
@@ -706,10 +1782,12 @@ class FinfluencerTracker {
   }
 
   // Reconcile ALL horizon-passed predictions (no artificial limit)
+  // Dry run verifies a single batch without writing results
   private async reconcileAllPredictions(): Promise<void> {
     try {
       // Check environment variable to decide which verification method to use
       const useAI = config.useAIVerification;
+      const dryRun = this.isDryRun("verification");
 
       logger.info(`🔍 Starting prediction reconciliation (ALL records)`, {
         useAIVerification: useAI,
@@ -721,13 +1799,19 @@ class FinfluencerTracker {
       let hasMoreRecords = true;
 
       while (hasMoreRecords) {
+        const exhausted = timeBudgetService.isExhausted("verification");
+        if (exhausted) {
+          timeBudgetService.defer("verification", exhausted);
+          break;
+        }
+
         batchNumber++;
 
         if (useAI) {
           // Use new AI-driven verification with full context
           const result = await combinedPredictionsService.reconcileWithAI({
             limit: BATCH_SIZE,
-            dryRun: false,
+            dryRun,
             requestId: `ai_reconcile_${Date.now()}_batch${batchNumber}`,
           });
 
@@ -748,7 +1832,7 @@ class FinfluencerTracker {
           // Use legacy hardcoded verification
           await combinedPredictionsService.reconcilePredictions({
             limit: BATCH_SIZE,
-            dryRun: false,
+            dryRun,
             retryCount: 3,
             useAI: false,
             requestId: `reconcile_${Date.now()}_batch${batchNumber}`,
@@ -780,6 +1864,11 @@ class FinfluencerTracker {
           hasMoreRecords = false;
         }
 
+        // Nothing is written in dry run, so later batches would repeat this one
+        if (dryRun) {
+          hasMoreRecords = false;
+        }
+
         // Small delay between batches
         if (hasMoreRecords) {
           await new Promise((resolve) =>
@@ -813,21 +1902,32 @@ class FinfluencerTracker {
         ? new Date(channel.last_checked_at)
         : new Date(config.startDate);
 
-      // Get new videos since last check
-      const videos = await youtubeService.getChannelVideos(
-        channel.channel_id,
-        lastChecked
+      // Get new videos since last check (of the tracked playlists only when
+      // the channel is playlist-scoped)
+      const playlists = await supabaseService.getTrackedPlaylists(
+        channel.channel_id
       );
+      const playlistFetch =
+        playlists.length > 0
+          ? await this.fetchPlaylistVideos(channel, playlists)
+          : null;
+      const videos = playlistFetch
+        ? playlistFetch.videos
+        : await youtubeService.getChannelVideos(
+            channel.channel_id,
+            lastChecked,
+            undefined,
+            YouTubeService.getDiscoveryMode(channel)
+          );
 
-      // Filter out live/premiere videos and very short videos
-      const filteredVideos = videos
-        .filter((video) => !YouTubeService.isLiveOrUpcoming(video))
-        .filter((video) => {
-          const duration = video.duration
-            ? parseYouTubeDuration(video.duration)
-            : 0;
-          return duration >= 60; // At least 1 minute
-        });
+      // Queue live/premiere videos for later, filter out very short videos
+      const readyVideos = await this.deferLiveVideos(videos, channel);
+      const filteredVideos = readyVideos.filter((video) => {
+        const duration = video.duration
+          ? parseYouTubeDuration(video.duration)
+          : 0;
+        return duration >= 60; // At least 1 minute
+      });
 
       this.stats.total_videos += filteredVideos.length;
       reportingService.setTotalVideos(this.stats.total_videos);
@@ -836,42 +1936,63 @@ class FinfluencerTracker {
         `📹 Found ${filteredVideos.length} new videos for ${channel.channel_name}`
       );
 
-      // Process each video - ALWAYS increment processed_videos for every video attempted
-      for (const video of filteredVideos) {
-        if (this.isShuttingDown) {
-          logger.info("Shutdown requested, stopping video processing");
-          break;
-        }
+      // Process videos in a bounded pool - ALWAYS increment processed_videos for every video attempted
+      await runWithWorkerPool(
+        filteredVideos,
+        config.concurrency.videos,
+        async (video) => {
+          // Update latestVideoDate so we can mark progress even if interrupted
+          try {
+            const published = video.publishedAt
+              ? new Date(video.publishedAt)
+              : null;
+            if (published && published > latestVideoDate)
+              latestVideoDate = published;
+          } catch (e) {
+            // ignore invalid dates
+          }
 
-        // Update latestVideoDate so we can mark progress even if interrupted
-        try {
-          const published = video.publishedAt
-            ? new Date(video.publishedAt)
-            : null;
-          if (published && published > latestVideoDate)
-            latestVideoDate = published;
-        } catch (e) {
-          // ignore invalid dates
-        }
+          // Increment processed_videos at the start - this ensures all attempted videos are counted
+          this.stats.processed_videos++;
+          reportingService.incrementVideosProcessed();
 
-        // Increment processed_videos at the start - this ensures all attempted videos are counted
-        this.stats.processed_videos++;
-        reportingService.incrementVideosProcessed();
+          try {
+            // The channel cursor moves once, after the pool has drained
+            await this.processVideo(video, channel, {
+              updateLastChecked: false,
+            });
+          } catch (error) {
+            logger.error(`Failed to process video ${video.videoId}`, {
+              error,
+            });
+            this.stats.errors++;
+            reportingService.incrementVideoErrors();
+            // continue to next video without throwing so we can still update last_checked_at
+          }
 
-        try {
-          await this.processVideo(video, channel);
-        } catch (error) {
-          logger.error(`Failed to process video ${video.videoId}`, { error });
-          this.stats.errors++;
-          // continue to next video without throwing so we can still update last_checked_at
-        }
+          // Add delay between videos to respect rate limits
+          await new Promise((resolve) => setTimeout(resolve, 2000));
+        },
+        () => this.isShuttingDown
+      );
+      if (this.isShuttingDown) {
+        logger.info("Shutdown requested, stopped video processing");
+      }
 
-        // Add delay between videos to respect rate limits
-        await new Promise((resolve) => setTimeout(resolve, 2000));
+      // Playlist cursors only move once all their new videos were attempted
+      if (playlistFetch && !this.isShuttingDown) {
+        for (const [playlistId, addedAt] of playlistFetch.cursors) {
+          await supabaseService.updatePlaylistLastChecked(
+            channel.channel_id,
+            playlistId,
+            addedAt
+          );
+        }
       }
 
       // BACKFILL: Check for any missed videos between START_DATE and last_checked_at
-      if (channel.last_checked_at && !this.isShuttingDown) {
+      // (playlist-scoped channels are covered by per-playlist gap detection)
+      if (channel.last_checked_at && !playlistFetch && !this.isShuttingDown) {
         await this.backfillMissedVideos(channel, filteredVideos);
       }
 
@@ -901,6 +2022,48 @@ class FinfluencerTracker {
     }
   }
 
+  /**
+   * New videos of a playlist-scoped channel: items added to each tracked
+   * playlist since its own cursor. A playlist that fails is skipped (its
+   * cursor stays) without affecting the others
+   */
+  private async fetchPlaylistVideos(
+    channel: any,
+    playlists: TrackedPlaylist[]
+  ): Promise<{ videos: YouTubeVideo[]; cursors: Map<string, string> }> {
+    const videos = new Map<string, YouTubeVideo>();
+    const cursors = new Map<string, string>();
+
+    for (const playlist of playlists) {
+      try {
+        const result = await youtubeService.getPlaylistVideos(
+          playlist.playlist_id,
+          {
+            addedAfter: playlist.last_checked_at
+              ? new Date(playlist.last_checked_at)
+              : undefined,
+            publishedAfter: new Date(config.startDate),
+          }
+        );
+        result.videos.forEach((video) => videos.set(video.videoId, video));
+        if (result.latestAddedAt) {
+          cursors.set(playlist.playlist_id, result.latestAddedAt);
+        }
+        logger.info(
+          `📋 ${channel.channel_name} / ${playlist.title || playlist.playlist_id}: ${result.videos.length} new video(s)`
+        );
+      } catch (error) {
+        logger.warn(
+          `Failed to fetch playlist ${playlist.playlist_id} of ${channel.channel_name}`,
+          { error: (error as Error).message }
+        );
+        this.stats.errors++;
+      }
+    }
+
+    return { videos: Array.from(videos.values()), cursors };
+  }
+
   /**
    * Backfill: Check for any videos missed between START_DATE and last_checked_at
    * This ensures all videos are processed even if the process was interrupted
@@ -942,15 +2105,17 @@ class FinfluencerTracker {
         (video) => !alreadyFetchedIds.has(video.videoId)
       );
 
-      // Filter out live/premiere videos and very short videos
-      const filteredMissed = potentialMissedVideos
-        .filter((video) => !YouTubeService.isLiveOrUpcoming(video))
-        .filter((video) => {
-          const duration = video.duration
-            ? parseYouTubeDuration(video.duration)
-            : 0;
-          return duration >= 60;
-        });
+      // Queue live/premiere videos for later, filter out very short videos
+      const readyMissed = await this.deferLiveVideos(
+        potentialMissedVideos,
+        channel
+      );
+      const filteredMissed = readyMissed.filter((video) => {
+        const duration = video.duration
+          ? parseYouTubeDuration(video.duration)
+          : 0;
+        return duration >= 60;
+      });
 
       // Check each video against the database
       let missedCount = 0;
@@ -996,7 +2161,16 @@ class FinfluencerTracker {
   }
 
   // Process a single video - FIXED: Now prioritizes RapidAPI for transcript retrieval
-  private async processVideo(video: any, channel: any): Promise<void> {
+  // Callers that process videos out of publish order (the channel pool,
+  // deferred live videos, backfill) pass updateLastChecked: false so the
+  // channel cursor doesn't move backwards or past videos still in flight
+  private async processVideo(
+    video: any,
+    channel: any,
+    options: { updateLastChecked?: boolean } = {}
+  ): Promise<void> {
+    const { updateLastChecked = true } = options;
+
     // Check if video already exists
     const exists = await supabaseService.videoExists(video.videoId);
     if (exists) {
@@ -1008,11 +2182,13 @@ class FinfluencerTracker {
     logger.info(`🔍 Processing video: ${video.title} (${video.videoId})`);
 
     try {
-      // Use the centralized 3-tier fallback system in youtubeService
-      // This handles: RapidAPI (Tier 1) → Supadata (Tier 2) → TranscriptAPI (Tier 3)
+      // Provider chain with fallbacks (TRANSCRIPT_PROVIDERS or the channel's
+      // transcript_providers)
       const transcriptResult = await youtubeService.getVideoTranscript(
         video.videoId,
-        video.defaultLanguage
+        video.defaultLanguage,
+        channel.transcript_providers,
+        transcriptExpectations(video)
       );
 
       // Normalize transcript to a string
@@ -1022,17 +2198,7 @@ class FinfluencerTracker {
           : transcriptResult?.transcript ?? "";
 
       // Heuristic validation: only accept transcripts that look like real captions/subtitles
-      const isValidTranscript = (text: string) => {
-        if (!text) return false;
-        const trimmed = text.trim();
-        if (trimmed.length < 50) return false; // too short to be a real transcript
-        // prefer transcripts with line breaks (common in captions) or enough words
-        if (trimmed.includes("\n") || trimmed.split(/\s+/).length > 20)
-          return true;
-        return false;
-      };
-
-      const hasValidTranscript = isValidTranscript(transcriptText);
+      const hasValidTranscript = isUsableTranscript(transcriptText);
 
       // If we don't have a valid transcript, record as pending
       if (!hasValidTranscript) {
@@ -1071,13 +2237,17 @@ class FinfluencerTracker {
 
       try {
         logger.info(`🧠 Starting AI analysis for video ${video.videoId}`);
-        analysis = await globalAIAnalyzer.analyzeTranscript(transcriptText, {
-          videoId: video.videoId,
-          title: video.title,
-          channelId: channel.channel_id,
-          channelName: channel.channel_name,
-          publishedAt: video.publishedAt,
-        });
+        analysis = await globalAIAnalyzer.analyzeTranscript(
+          transcriptText,
+          {
+            videoId: video.videoId,
+            title: video.title,
+            channelId: channel.channel_id,
+            channelName: channel.channel_name,
+            publishedAt: video.publishedAt,
+          },
+          transcriptResult?.segments
+        );
 
         // Check if analysis returned valid results:
         // - predictions array with at least one item, OR
@@ -1166,7 +2336,7 @@ class FinfluencerTracker {
       });
 
       // Update channel last_checked_at immediately after successful video processing
-      if (video.publishedAt) {
+      if (updateLastChecked && video.publishedAt) {
         await supabaseService.updateChannelLastCheckedWithVideoDate(
           channel.channel_id,
           video.publishedAt
@@ -1248,7 +2418,11 @@ class FinfluencerTracker {
               (this.stats.processed_videos / this.stats.total_videos) * 100
             )
           : 0,
-      supadata_credits_used: apiStats.supadataCredits?.creditsUsed || 0,
+      // This run's credits; the month's total (all runs) is reported apart
+      supadata_credits_used:
+        reportingService.getReport().transcript_spend.providers.supadata
+          ?.units || 0,
+      supadata_credits_used_month: apiStats.supadataCredits?.creditsUsed || 0,
       supadata_credits_remaining:
         apiStats.supadataCredits?.creditsRemaining || 100,
     });
@@ -1260,8 +2434,19 @@ class FinfluencerTracker {
     this.isShuttingDown = true;
 
     // Finalize report as partial
+    this.carryForwardDeferred();
     reportingService.finalize("partial");
     await reportingService.save();
+    await notificationService.notifyRunFinished(reportingService.getReport());
+
+    // Let the next run start without waiting for the lease to expire
+    await runLockService.release();
+
+    // Deliver events already emitted by in-flight stages
+    await eventBus.flush();
+    await youtubeQuotaService.flush();
+    await transcriptSpendService.flush();
+    await transcriptProviderScoreService.flush();
 
     // Log final Supadata stats
     if (supadataService.isConfigured()) {
@@ -1295,31 +2480,255 @@ class FinfluencerTracker {
   }
 }
 
+// Control plane: optional HTTP API (CONTROL_PLANE_ENABLED)
+async function startControlPlane(
+  tracker: FinfluencerTracker
+): Promise<ControlPlaneServer | null> {
+  if (!config.controlPlane.enabled) return null;
+
+  const server = new ControlPlaneServer({
+    healthCheck: () => supabaseService.healthCheck(),
+    transcriptServices: transcriptProviderRegistry
+      .names()
+      .map((name) => transcriptProviderRegistry.get(name)!)
+      .map((provider) => ({
+        name: provider.name,
+        isConfigured: () => provider.isConfigured(),
+        testConnection: async () =>
+          provider.testConnection ? provider.testConnection() : true,
+      })),
+    isRunning: () => tracker.isRunning(),
+    getCurrentRun: () => {
+      const report = reportingService.getReport();
+      return report.run_id ? report : null;
+    },
+    triggerRun: (selection) =>
+      new Promise<string>((resolve, reject) => {
+        // Named up front: the report only gets the run_id once the lock is held
+        const runId = reportingService.generateRunId();
+        let started = false;
+        tracker
+          .run(selection, {
+            runId,
+            onStarted: () => {
+              started = true;
+              resolve(runId);
+            },
+          })
+          .catch((error) => {
+            // A run that never got the lock is reported to the caller
+            if (!started) return reject(error);
+            logger.error("❌ Triggered run failed", { error });
+          });
+      }),
+    reprocessVideo: (videoId) => tracker.reprocessVideo(videoId),
+  });
+
+  await server.start();
+  return server;
+}
+
+// Daemon mode: keep the process alive and run stages on their cron schedules
+// The stage selection limits which schedules are active
+async function runDaemon(
+  tracker: FinfluencerTracker,
+  selection: StageSelection,
+  controlPlane: ControlPlaneServer | null
+): Promise<void> {
+  const scheduler = new StageScheduler((stages) =>
+    tracker.run({
+      stages,
+      skipped: getPipelineStages().filter((stage) => !stages.includes(stage)),
+      dryRun: selection.dryRun.filter((stage) => stages.includes(stage)),
+    })
+  );
+
+  // Stop scheduling first, then let in-flight stages wind down
+  setupGracefulShutdown(async () => {
+    scheduler.stop();
+    await controlPlane?.stop();
+    if (tracker.isRunning()) {
+      await tracker.shutdown();
+    }
+  });
+
+  await scheduler.start(selection.stages);
+}
+
+// Backfill command: enumerate the channel's history, list it (--dry-run) or
+// queue it as a job and return the stages that process it. Without --channel
+// it just continues pending jobs. Returns null when nothing should run.
+async function prepareBackfill(args: string[]): Promise<StageSelection | null> {
+  const selection: StageSelection = {
+    stages: ["backfill", "analysis", "combined"],
+    skipped: getPipelineStages().filter(
+      (stage) => !["backfill", "analysis", "combined"].includes(stage)
+    ),
+    dryRun: [],
+  };
+  if (!args.some((arg) => arg.startsWith("--channel="))) return selection;
+
+  const options = resolveBackfillOptions(args);
+  const plan = await backfillService.plan(options);
+  logger.info(
+    `📚 Backfill ${plan.channel.channel_name} (${plan.channel.channel_id}) from ${options.from
+      .toISOString()
+      .slice(0, 10)} to ${options.to.toISOString().slice(0, 10)}: ${
+      plan.videoCount
+    } upload(s), enumeration costs at most ${plan.quotaEstimate} unit(s) (${
+      plan.fallbackQuotaEstimate
+    } of them if it falls back to search.list), ${
+      plan.quotaRemaining
+    } left today`
+  );
+
+  if (plan.quotaEstimate > plan.quotaRemaining && !options.force) {
+    throw new ValidationError(
+      `Backfill needs up to ${plan.quotaEstimate} YouTube units but only ${plan.quotaRemaining} are left today (use --force to start anyway)`
+    );
+  }
+
+  const videos = await backfillService.enumerate(plan, options);
+
+  if (options.dryRun) {
+    console.log(
+      `\n📚 ${videos.length} video(s) would be backfilled for ${plan.channel.channel_name}:`
+    );
+    for (const video of videos) {
+      const minutes = video.duration
+        ? Math.round(parseYouTubeDuration(video.duration) / 60)
+        : "?";
+      console.log(
+        `  ${video.publishedAt.slice(0, 10)}  ${video.videoId}  ${minutes} min  ${video.title}`
+      );
+    }
+    return null;
+  }
+
+  await backfillService.createJob(plan, options, videos);
+  return selection;
+}
+
+// Import-subtitles command: the combined stage, preceded by storing the
+// caption file as the video's transcript and analyzing it like a fetched one
+// (re-analyzing an existing record). The import runs inside the run, so it
+// holds the run lock and follows the connection tests.
+function prepareSubtitleImport(
+  args: string[],
+  tracker: FinfluencerTracker
+): { selection: StageSelection; prepare: () => Promise<void> } {
+  const options = resolveSubtitleImportOptions(args);
+
+  const prepare = async (): Promise<void> => {
+    const imported = await subtitleImportService.import(options);
+
+    const updated = await supabaseService.setRawTranscript(
+      options.videoId,
+      imported.transcript
+    );
+    if (!updated) {
+      logger.info(
+        `📥 Video ${options.videoId} has no record yet, processing it with the imported transcript`
+      );
+    }
+
+    const result = await tracker.reprocessVideo(options.videoId);
+    logger.info(
+      `📥 Imported transcript of ${options.videoId}: ${result.action}${
+        result.outcome ? ` (${result.outcome})` : ""
+      }`
+    );
+  };
+
+  return {
+    selection: {
+      stages: ["combined"],
+      skipped: getPipelineStages().filter((stage) => stage !== "combined"),
+      dryRun: [],
+    },
+    prepare,
+  };
+}
+
 // Main execution function
 async function main(): Promise<void> {
   const tracker = new FinfluencerTracker();
+  const args = process.argv.slice(2);
+
+  // Plugin stages register after the built-ins so they can depend on them
+  try {
+    stageRegistry.loadPlugins(config.stages.plugins);
+    stageRegistry.order();
+  } catch (error) {
+    logger.error("Failed to load stage plugins", { error });
+    process.exit(1);
+  }
+
+  let controlPlane: ControlPlaneServer | null = null;
+  try {
+    controlPlane = await startControlPlane(tracker);
+  } catch (error) {
+    logger.error("Failed to start control plane", { error });
+    process.exit(1);
+  }
+
+  if (args.includes("--daemon") || config.daemon.enabled) {
+    try {
+      await runDaemon(tracker, resolveStageSelection(args), controlPlane);
+    } catch (error) {
+      logger.error("Failed to start daemon mode", { error });
+      process.exit(1);
+    }
+    return;
+  }
 
   // Setup graceful shutdown handlers
-  setupGracefulShutdown(() => tracker.shutdown());
+  setupGracefulShutdown(async () => {
+    await controlPlane?.stop();
+    await tracker.shutdown();
+  });
 
   try {
-    await tracker.run();
+    // Stage selection from CLI flags (falls back to RUN_STAGES / SKIP_STAGES / DRY_RUN_STAGES)
+    const subtitleImport =
+      args[0] === "import-subtitles"
+        ? prepareSubtitleImport(args, tracker)
+        : null;
+    const selection = subtitleImport
+      ? subtitleImport.selection
+      : args[0] === "backfill"
+      ? await prepareBackfill(args)
+      : resolveStageSelection(args);
+    if (!selection) process.exit(0);
+
+    // Resume: --run-id=<id> (or RUN_ID) continues that run, --resume picks the
+    // most recent run that never finished
+    const runIdArg = args.find((a) => a.startsWith("--run-id="));
+    let resumeRunId = runIdArg ? runIdArg.substring(9) : config.resumeRunId;
+    if (!resumeRunId && args.includes("--resume")) {
+      resumeRunId = await reportingService.findResumableRunId();
+      if (!resumeRunId) {
+        logger.info("No unfinished run found to resume, starting a new run");
+      }
+    }
 
-    // Finalize and save report
-    reportingService.finalize("success");
-    await reportingService.save();
-    reportingService.printCLI();
+    await tracker.run(selection, {
+      resumeRunId: resumeRunId || undefined,
+      prepare: subtitleImport?.prepare,
+    });
 
+    // run() finalized, saved and printed the report while holding the lock
     // Exit with success code
     process.exit(0);
   } catch (error) {
-    logger.error("Fatal error in main execution", { error });
+    // Another run is active: this one never started, so there is no report
+    if (error instanceof RunLockError) {
+      logger.warn(`⏭️ Run not started: ${error.message}`);
+      process.exit(0);
+    }
 
-    // Finalize and save report as failed
-    reportingService.addError((error as Error).message);
-    reportingService.finalize("failed");
-    await reportingService.save();
-    reportingService.printCLI();
+    // A failed run already recorded the error in its report
+    logger.error("Fatal error in main execution", { error });
 
     // Exit with error code
     process.exit(1);
@@ -1,5 +1,9 @@
 import { config } from "./config";
-import { RapidAPITranscriptResponse, RapidAPIResult } from "./types";
+import {
+  RapidAPITranscriptResponse,
+  RapidAPIResult,
+  TranscriptPayload,
+} from "./types";
 import { TranscriptError } from "./errors";
 import {
   logger,
@@ -167,6 +171,13 @@ export class RapidAPIService {
 
   // Get transcript using RapidAPI (two-step process)
   async getVideoTranscript(videoId: string): Promise<string> {
+    return (await this.getVideoTranscriptDetails(videoId)).transcript;
+  }
+
+  // Transcript plus the language RapidAPI reports for it
+  // RapidAPI returns no timings, so these transcripts have no segments and
+  // their predictions get no source_segment link
+  async getVideoTranscriptDetails(videoId: string): Promise<TranscriptPayload> {
     if (!config.rapidapiKey || config.rapidapiKey.length < 10) {
       throw new TranscriptError("RapidAPI key not configured");
     }
@@ -219,7 +230,10 @@ export class RapidAPIService {
             totalTime
           );
 
-          return result.transcript;
+          return {
+            transcript: result.transcript,
+            language: result.language || null,
+          };
         }
 
         // Check for processing failure using NEW format
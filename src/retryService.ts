@@ -11,7 +11,7 @@ import {
   sleep,
   detectLanguage,
 } from "./utils";
-import { FinfluencerPrediction } from "./types";
+import { FinfluencerPrediction, TranscriptSegment } from "./types";
 
 export interface RetryRecord {
   id: string;
@@ -55,7 +55,12 @@ export class RetryService {
   }
 
   // Main method to process all failed predictions
-  async processFailedPredictions(): Promise<void> {
+  // shouldStop is checked between batches (time budget); the IDs of records
+  // left unprocessed are returned so the caller can defer them.
+  // priorityIds (work deferred by an earlier run) are retried first.
+  async processFailedPredictions(
+    options: { shouldStop?: () => boolean; priorityIds?: string[] } = {}
+  ): Promise<string[]> {
     try {
       logger.info(
         "🔄 Starting retry process for failed predictions with transcript reuse optimization"
@@ -66,7 +71,16 @@ export class RetryService {
 
       if (recordsToRetry.length === 0) {
         logger.info("✅ No records found that need retry");
-        return;
+        return [];
+      }
+
+      // Deferred records first, otherwise keep newer-first order
+      const priorityIds = new Set(options.priorityIds || []);
+      if (priorityIds.size > 0) {
+        recordsToRetry.sort(
+          (a, b) =>
+            Number(priorityIds.has(b.id)) - Number(priorityIds.has(a.id))
+        );
       }
 
       logger.info(`📋 Found ${recordsToRetry.length} records to retry`);
@@ -78,6 +92,14 @@ export class RetryService {
 
       // Process in smaller batches with enhanced rate limiting
       for (let i = 0; i < recordsToRetry.length; i += this.BATCH_SIZE) {
+        if (options.shouldStop?.()) {
+          const pendingIds = recordsToRetry.slice(i).map((r) => r.id);
+          logger.info(
+            `⏸️ Retry process stopped early, ${pendingIds.length} records left for a later run`
+          );
+          return pendingIds;
+        }
+
         const batch = recordsToRetry.slice(i, i + this.BATCH_SIZE);
         await this.processBatchWithRateLimit(batch);
 
@@ -99,6 +121,7 @@ export class RetryService {
         totalRecordsProcessed: recordsToRetry.length,
         rateLimitStats: stats,
       });
+      return [];
     } catch (error) {
       logger.error("❌ Retry process failed", { error });
       throw error;
@@ -326,6 +349,8 @@ export class RetryService {
 
       // OPTIMIZATION: Check if we have a saved transcript first
       let transcriptText: string | null = null;
+      // Left undefined for saved transcripts: the analyzer reads the store
+      let transcriptSegments: TranscriptSegment[] | null | undefined;
 
       if (record.raw_transcript && record.raw_transcript.trim().length >= 50) {
         // Use saved transcript - no API calls needed!
@@ -343,9 +368,13 @@ export class RetryService {
         // Apply rate limiting before API calls
         await this.rateLimiter.wait();
 
+        // Channels can use their own provider order
+        const channel = await supabaseService.getChannel(record.channel_id);
         const transcriptResult = await youtubeService.getVideoTranscript(
           record.video_id,
-          record.default_language
+          record.default_language,
+          channel?.transcript_providers,
+          { language: record.default_language }
         );
 
         if (!transcriptResult || !transcriptResult.transcript) {
@@ -380,9 +409,13 @@ export class RetryService {
           };
         }
 
-        transcriptSource = "api";
+        // The transcript store answers first, providers are only paid on a miss
+        transcriptSource = transcriptResult.stored ? "saved" : "api";
+        transcriptSegments = transcriptResult.segments;
         logger.info(
-          `🌐 Fetched transcript from API for video ${record.video_id} (${transcriptText.length} characters)`
+          transcriptResult.stored
+            ? `💾 Using stored transcript for video ${record.video_id} (${transcriptText.length} characters)`
+            : `🌐 Fetched transcript from API for video ${record.video_id} (${transcriptText.length} characters)`
         );
       }
 
@@ -401,7 +434,8 @@ export class RetryService {
           channelName: "", // We don't have this data here, but analyzer should handle it
           publishedAt: record.post_date,
           defaultLanguage: record.default_language,
-        }
+        },
+        transcriptSegments
       );
 
       // Enhanced validation for out-of-subject detection
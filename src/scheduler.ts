@@ -0,0 +1,285 @@
+import { config } from "./config";
+import { ConfigurationError } from "./errors";
+import { CronSchedule, getNextCronTime, parseCronExpression } from "./cron";
+import { scheduleStateService } from "./services/scheduleStateService";
+import { getPipelineStages, isPipelineStage } from "./stageSelection";
+import { PipelineStage } from "./types";
+import { logger } from "./utils";
+
+// Used when daemon mode is enabled without STAGE_SCHEDULES
+// Everything nightly (like the external 23:30 cron), verification, news and
+// ended live streams more often
+export const DEFAULT_STAGE_SCHEDULES =
+  "channels,gap_detection,backfill,retries,analysis,combined,availability," +
+  "offerings=30 23 * * *;" +
+  "verification=0 */4 * * *;news,live_videos=0 * * * *";
+
+// Longest single timer; ticks are re-planned so clock jumps are picked up
+const MAX_TICK_MS = 60000;
+
+interface ScheduledStage {
+  stage: PipelineStage;
+  schedule: CronSchedule;
+  scheduledAt: Date; // Cron time
+  dueAt: Date; // Cron time + jitter
+}
+
+/**
+ * Parse "stage[,stage]=cron;stage=cron" into one cron schedule per stage
+ */
+export function parseStageSchedules(
+  value: string
+): Map<PipelineStage, CronSchedule> {
+  const schedules = new Map<PipelineStage, CronSchedule>();
+
+  for (const entry of value.split(";")) {
+    if (!entry.trim()) continue;
+
+    const separator = entry.indexOf("=");
+    if (separator === -1) {
+      throw new ConfigurationError(
+        `Invalid schedule "${entry.trim()}" in STAGE_SCHEDULES (expected stage=cron)`
+      );
+    }
+
+    const schedule = parseCronExpression(entry.substring(separator + 1));
+    const stages = entry
+      .substring(0, separator)
+      .split(",")
+      .map((s) => s.trim().toLowerCase())
+      .filter(Boolean);
+
+    const validStages = getPipelineStages();
+    for (const stage of stages) {
+      if (!isPipelineStage(stage, validStages)) {
+        throw new ConfigurationError(
+          `Unknown stage in STAGE_SCHEDULES: ${stage}. Valid stages: ${validStages.join(
+            ", "
+          )}`
+        );
+      }
+      schedules.set(stage, schedule);
+    }
+  }
+
+  return schedules;
+}
+
+/**
+ * Stage Scheduler (daemon mode)
+ * Fires pipeline stages on their own cron schedules in config.timezone.
+ * Stages that come due together run in a single tracker run; a stage that is
+ * still running or queued is not queued again (overlap protection), and fires
+ * that come later than the misfire grace period are run once or skipped
+ * depending on config.daemon.misfirePolicy. The last handled fire of each
+ * stage is persisted, so fires missed while the daemon was down are treated
+ * as misfires on the next start.
+ */
+export class StageScheduler {
+  private entries: ScheduledStage[] = [];
+  private pending = new Map<PipelineStage, Date>(); // stage -> due time of its fire
+  private running: PipelineStage[] = [];
+  private executing = false;
+  private stopped = false;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly execute: (stages: PipelineStage[]) => Promise<void>
+  ) {}
+
+  /**
+   * Start scheduling the given stages (others are ignored even if scheduled)
+   */
+  async start(stages: PipelineStage[]): Promise<void> {
+    const schedules = parseStageSchedules(
+      config.daemon.schedules || DEFAULT_STAGE_SCHEDULES
+    );
+    const now = new Date();
+
+    this.entries = [];
+    for (const stage of getPipelineStages()) {
+      const schedule = schedules.get(stage);
+      if (!schedule || !stages.includes(stage)) continue;
+      this.entries.push(this.plan(stage, schedule, now));
+    }
+
+    if (this.entries.length === 0) {
+      throw new ConfigurationError(
+        "Daemon mode has no stages to schedule (check STAGE_SCHEDULES and stage selection)"
+      );
+    }
+
+    await this.enqueueMissedFires(now);
+
+    logger.info("🗓️ Daemon scheduler started", {
+      timezone: config.timezone,
+      jitterSeconds: config.daemon.jitterSeconds,
+      misfirePolicy: config.daemon.misfirePolicy,
+      schedules: this.entries.map((e) => ({
+        stage: e.stage,
+        cron: e.schedule.expression,
+        next: e.dueAt.toISOString(),
+      })),
+    });
+
+    this.stopped = false;
+    this.scheduleTick();
+  }
+
+  /**
+   * Stop firing new runs; an in-flight run is left to the shutdown handler
+   */
+  stop(): void {
+    this.stopped = true;
+    this.pending.clear();
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    logger.info("🗓️ Daemon scheduler stopped");
+  }
+
+  isExecuting(): boolean {
+    return this.executing;
+  }
+
+  private plan(
+    stage: PipelineStage,
+    schedule: CronSchedule,
+    after: Date
+  ): ScheduledStage {
+    const scheduledAt = getNextCronTime(schedule, after, config.timezone);
+    const jitterMs = Math.random() * config.daemon.jitterSeconds * 1000;
+    return {
+      stage,
+      schedule,
+      scheduledAt,
+      dueAt: new Date(scheduledAt.getTime() + jitterMs),
+    };
+  }
+
+  // Fires that came due while no daemon was running (since the last handled
+  // fire of each stage) go through the misfire policy once
+  private async enqueueMissedFires(now: Date): Promise<void> {
+    const lastFires = await scheduleStateService.load();
+
+    for (const entry of this.entries) {
+      const lastFiredAt = lastFires.get(entry.stage);
+      if (!lastFiredAt) continue;
+
+      const missedAt = getNextCronTime(
+        entry.schedule,
+        lastFiredAt,
+        config.timezone
+      );
+      if (missedAt.getTime() > now.getTime()) continue;
+
+      logger.warn(
+        `⚠️ Stage "${entry.stage}" missed its fire at ${missedAt.toISOString()} while the daemon was down`
+      );
+      this.enqueue(
+        { ...entry, scheduledAt: missedAt, dueAt: missedAt },
+        now.getTime() - missedAt.getTime()
+      );
+      void scheduleStateService.recordFire(entry.stage, now);
+    }
+  }
+
+  private scheduleTick(): void {
+    if (this.stopped) return;
+
+    const nextDue = Math.min(...this.entries.map((e) => e.dueAt.getTime()));
+    const delay = Math.max(0, Math.min(nextDue - Date.now(), MAX_TICK_MS));
+    this.timer = setTimeout(() => this.tick(), delay);
+  }
+
+  private tick(): void {
+    if (this.stopped) return;
+
+    const now = new Date();
+    this.entries = this.entries.map((entry) => {
+      if (entry.dueAt.getTime() > now.getTime()) return entry;
+
+      this.enqueue(entry, now.getTime() - entry.dueAt.getTime());
+      void scheduleStateService.recordFire(entry.stage, now);
+      // Planning from "now" coalesces any further missed fires into this one
+      return this.plan(entry.stage, entry.schedule, now);
+    });
+
+    if (!this.executing && this.pending.size > 0) {
+      void this.runPending();
+    }
+    this.scheduleTick();
+  }
+
+  private enqueue(entry: ScheduledStage, lateMs: number): void {
+    if (this.running.includes(entry.stage) || this.pending.has(entry.stage)) {
+      logger.warn(
+        `⏭️ Stage "${entry.stage}" is still ${
+          this.running.includes(entry.stage) ? "running" : "queued"
+        }, skipping fire at ${entry.scheduledAt.toISOString()}`
+      );
+      return;
+    }
+
+    if (this.isMisfire(entry.stage, lateMs)) return;
+    this.pending.set(entry.stage, entry.dueAt);
+  }
+
+  // A fire later than the grace period is a misfire: skip it or run it once
+  private isMisfire(stage: PipelineStage, lateMs: number): boolean {
+    if (lateMs <= config.daemon.misfireGraceSeconds * 1000) return false;
+
+    if (config.daemon.misfirePolicy === "skip") {
+      logger.warn(
+        `⏭️ Misfire: stage "${stage}" is ${Math.round(
+          lateMs / 1000
+        )}s late, skipping until its next schedule`
+      );
+      return true;
+    }
+
+    logger.warn(
+      `⚠️ Misfire: stage "${stage}" is ${Math.round(
+        lateMs / 1000
+      )}s late, running it once now`
+    );
+    return false;
+  }
+
+  // Run queued stages one tracker run at a time
+  private async runPending(): Promise<void> {
+    this.executing = true;
+
+    try {
+      while (this.pending.size > 0 && !this.stopped) {
+        // Stages queued behind a long run may have become misfires meanwhile
+        const now = Date.now();
+        const stages = getPipelineStages().filter(
+          (stage) =>
+            this.pending.has(stage) &&
+            !(
+              config.daemon.misfirePolicy === "skip" &&
+              this.isMisfire(stage, now - this.pending.get(stage).getTime())
+            )
+        );
+        this.pending.clear();
+        if (stages.length === 0) continue;
+
+        this.running = stages;
+        logger.info(`⏰ Scheduled run starting`, { stages });
+
+        try {
+          await this.execute(stages);
+        } catch (error) {
+          // Failures are in the run report; keep the daemon alive
+          logger.error("❌ Scheduled run failed", { stages, error });
+        } finally {
+          this.running = [];
+        }
+      }
+    } finally {
+      this.executing = false;
+    }
+  }
+}
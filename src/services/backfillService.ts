@@ -0,0 +1,299 @@
+import { config } from "../config";
+import { DatabaseError, ValidationError } from "../errors";
+import { getArgValue } from "../stageSelection";
+import {
+  BackfillFilters,
+  BackfillJob,
+  FinfluencerChannel,
+  YouTubeVideo,
+} from "../types";
+import { YouTubeService, youtubeService } from "../youtube";
+import { logger, parseYouTubeDuration } from "../utils";
+import { supabaseService } from "../supabase";
+import { channelResolverService } from "./channelResolverService";
+import {
+  youtubeQuotaService,
+  YOUTUBE_QUOTA_COSTS,
+} from "./youtubeQuotaService";
+
+const JOBS_TABLE = "backfill_jobs";
+const PAGE_SIZE = 50; // playlistItems.list maximum
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface BackfillOptions {
+  channel: string; // Any channel reference (UC… ID, @handle, URL)
+  from: Date;
+  to: Date;
+  filters: BackfillFilters;
+  dryRun: boolean; // List matching videos without queueing them
+  force: boolean; // Queue even when the estimate exceeds today's remaining quota
+}
+
+export interface BackfillPlan {
+  channel: FinfluencerChannel;
+  videoCount: number; // Uploads reported by channels.list
+  quotaEstimate: number; // Upper bound for the enumeration, in units
+  fallbackQuotaEstimate: number; // Part of quotaEstimate spent by the search.list fallback
+  quotaRemaining: number; // Left today over every configured key
+}
+
+/**
+ * Parse the backfill command line
+ *   backfill --channel=<ref> --from=YYYY-MM-DD [--to=YYYY-MM-DD]
+ *            [--min-duration=<seconds>] [--keywords=a,b] [--dry-run] [--force]
+ */
+export function resolveBackfillOptions(argv: string[]): BackfillOptions {
+  const channel = getArgValue(argv, "channel");
+  const fromArg = getArgValue(argv, "from");
+  if (!channel || !fromArg) {
+    throw new ValidationError(
+      "backfill requires --channel=<channel> and --from=YYYY-MM-DD"
+    );
+  }
+
+  const from = parseDate(fromArg, "--from");
+  const toArg = getArgValue(argv, "to");
+  // --to includes the whole day
+  const to = toArg
+    ? new Date(parseDate(toArg, "--to").getTime() + 86400000 - 1)
+    : new Date();
+  if (from > to) {
+    throw new ValidationError(`--from (${fromArg}) is after --to (${toArg})`);
+  }
+
+  const filters: BackfillFilters = {};
+  const minDuration = getArgValue(argv, "min-duration");
+  if (minDuration !== undefined) {
+    const seconds = parseInt(minDuration);
+    if (isNaN(seconds) || seconds < 0) {
+      throw new ValidationError(
+        `Invalid --min-duration "${minDuration}" (expected seconds)`
+      );
+    }
+    filters.min_duration_seconds = seconds;
+  }
+  const keywords = (getArgValue(argv, "keywords") || "")
+    .split(",")
+    .map((keyword) => keyword.trim())
+    .filter(Boolean);
+  if (keywords.length > 0) filters.title_keywords = keywords;
+
+  return {
+    channel,
+    from,
+    to,
+    filters,
+    dryRun: argv.includes("--dry-run"),
+    force: argv.includes("--force"),
+  };
+}
+
+function parseDate(value: string, flag: string): Date {
+  const date = new Date(`${value}T00:00:00Z`);
+  if (!DATE_PATTERN.test(value) || isNaN(date.getTime())) {
+    throw new ValidationError(`Invalid ${flag} "${value}" (expected YYYY-MM-DD)`);
+  }
+  return date;
+}
+
+/**
+ * Backfill Service
+ * Enumerates a channel's uploads in a date range and queues the matching
+ * videos (backfill_jobs) for the backfill stage, which runs them through the
+ * normal transcript and analysis path. Jobs survive restarts: a job keeps the
+ * IDs it already processed and stays pending until every video was attempted.
+ */
+class BackfillService {
+  /**
+   * Resolve the channel and estimate the enumeration cost before spending it
+   * Throws ValidationError when the channel isn't tracked
+   */
+  async plan(options: BackfillOptions): Promise<BackfillPlan> {
+    const resolved = await channelResolverService.resolve(options.channel);
+    const channel = await supabaseService.getChannel(resolved.channelId);
+    if (!channel) {
+      throw new ValidationError(
+        `Channel ${resolved.channelId} (${resolved.title}) is not in finfluencer_channels, add it before backfilling`
+      );
+    }
+
+    const videoCount = parseInt(resolved.raw?.statistics?.videoCount || "0");
+
+    for (const apiKey of config.youtubeApiKeys) {
+      await youtubeQuotaService.refresh(apiKey);
+    }
+
+    const fallbackQuotaEstimate = this.estimateFallbackQuota(videoCount);
+    return {
+      channel,
+      videoCount,
+      quotaEstimate: this.estimateQuota(videoCount) + fallbackQuotaEstimate,
+      fallbackQuotaEstimate,
+      quotaRemaining: youtubeService.getQuotaUsage().remaining,
+    };
+  }
+
+  /**
+   * Worst case for reading the uploads back to the start of the range: every
+   * page (1 unit) plus the videos.list call for its matches (1 unit)
+   */
+  estimateQuota(videoCount: number): number {
+    const pages = Math.min(
+      Math.max(1, Math.ceil(videoCount / PAGE_SIZE)),
+      config.backfill.maxPages
+    );
+    return pages * 2;
+  }
+
+  /**
+   * Worst case when playlistItems.list fails and enumeration falls back to
+   * search.list: every search page (100 units) plus its videos.list call
+   */
+  estimateFallbackQuota(videoCount: number): number {
+    const pages = Math.max(1, Math.ceil(videoCount / config.youtubeMaxResults));
+    return pages * (YOUTUBE_QUOTA_COSTS.search + YOUTUBE_QUOTA_COSTS.videos);
+  }
+
+  /**
+   * Uploads of the channel in the range that pass the filters, oldest first
+   * Live and upcoming broadcasts are left to channel processing
+   */
+  async enumerate(
+    plan: BackfillPlan,
+    options: BackfillOptions
+  ): Promise<YouTubeVideo[]> {
+    const videos = await youtubeService.getChannelVideos(
+      plan.channel.channel_id,
+      options.from,
+      options.to,
+      "api",
+      config.backfill.maxPages
+    );
+
+    const matching = videos
+      .filter((video) => !YouTubeService.isLiveOrUpcoming(video))
+      .filter((video) => this.matchesFilters(video, options.filters))
+      .sort(
+        (a, b) =>
+          new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime()
+      );
+
+    logger.info(
+      `📚 ${matching.length}/${videos.length} video(s) of ${plan.channel.channel_name} match the backfill filters`
+    );
+    return matching;
+  }
+
+  /**
+   * Queue the enumerated videos for the backfill stage
+   */
+  async createJob(
+    plan: BackfillPlan,
+    options: BackfillOptions,
+    videos: YouTubeVideo[]
+  ): Promise<BackfillJob> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseService.supabase
+      .from(JOBS_TABLE)
+      .insert({
+        channel_id: plan.channel.channel_id,
+        published_after: options.from.toISOString(),
+        published_before: options.to.toISOString(),
+        filters: options.filters,
+        videos,
+        processed_ids: [],
+        failed_ids: [],
+        quota_estimate: plan.quotaEstimate,
+        status: videos.length > 0 ? "pending" : "completed",
+        created_at: now,
+        updated_at: now,
+        completed_at: videos.length > 0 ? null : now,
+      })
+      .select("*")
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to create backfill job for ${plan.channel.channel_id}: ${error.message}`,
+        { cause: error }
+      );
+    }
+
+    logger.info(
+      `📚 Backfill job ${data.id} queued ${videos.length} video(s) of ${plan.channel.channel_name}`
+    );
+    return data as BackfillJob;
+  }
+
+  /**
+   * Jobs with videos left to process, oldest first
+   */
+  async getPendingJobs(): Promise<BackfillJob[]> {
+    const { data, error } = await supabaseService.supabase
+      .from(JOBS_TABLE)
+      .select("*")
+      .eq("status", "pending")
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to load backfill jobs: ${error.message}`,
+        { cause: error }
+      );
+    }
+    return (data || []) as BackfillJob[];
+  }
+
+  /**
+   * Persist processed/failed IDs; completes the job once every video was
+   * attempted
+   */
+  async saveProgress(job: BackfillJob): Promise<void> {
+    const now = new Date().toISOString();
+    const done = job.processed_ids.length >= job.videos.length;
+    if (done) {
+      job.status = "completed";
+      job.completed_at = now;
+    }
+
+    const { error } = await supabaseService.supabase
+      .from(JOBS_TABLE)
+      .update({
+        processed_ids: job.processed_ids,
+        failed_ids: job.failed_ids,
+        status: job.status,
+        updated_at: now,
+        completed_at: job.completed_at,
+      })
+      .eq("id", job.id);
+
+    if (error) {
+      logger.warn(`Failed to save progress of backfill job ${job.id}`, {
+        error: error.message,
+      });
+    }
+  }
+
+  // Videos of unknown duration pass the duration filter
+  private matchesFilters(
+    video: YouTubeVideo,
+    filters: BackfillFilters
+  ): boolean {
+    if (filters.min_duration_seconds && video.duration) {
+      if (parseYouTubeDuration(video.duration) < filters.min_duration_seconds) {
+        return false;
+      }
+    }
+
+    if (filters.title_keywords?.length) {
+      const title = (video.title || "").toLowerCase();
+      return filters.title_keywords.some((keyword) =>
+        title.includes(keyword.toLowerCase())
+      );
+    }
+
+    return true;
+  }
+}
+
+export const backfillService = new BackfillService();
@@ -0,0 +1,246 @@
+import axios from "axios";
+import * as cheerio from "cheerio";
+import { config } from "../config";
+import { ChannelResolutionError } from "../errors";
+import { youtubeService } from "../youtube";
+import { logger } from "../utils";
+
+const YOUTUBE_URL = "https://www.youtube.com";
+const CHANNEL_ID_PATTERN = /^UC[a-zA-Z0-9_-]{22}$/;
+const HANDLE_PATTERN = /^@?[a-zA-Z0-9._-]{3,30}$/;
+// Unresolvable references are retried sooner than successful lookups
+const NEGATIVE_CACHE_MS = 10 * 60 * 1000;
+
+export interface ResolvedChannel {
+  channelId: string;
+  title: string;
+  handle: string | null; // "@name", null if the channel has none
+  raw?: any; // snippet + statistics as returned by channels.list
+}
+
+type ChannelReference =
+  | { kind: "id"; value: string }
+  | { kind: "handle"; value: string }
+  | { kind: "username"; value: string }
+  | { kind: "custom"; value: string };
+
+/**
+ * Channel Resolver Service
+ * Turns any YouTube channel reference (UC… ID, @handle, /channel/, /c/,
+ * /user/ or vanity URL) into the canonical channel ID, title and handle
+ */
+class ChannelResolverService {
+  private cache = new Map<
+    string,
+    { channel: ResolvedChannel | null; expiresAt: number }
+  >();
+  private pending = new Map<string, Promise<ResolvedChannel | null>>();
+
+  /**
+   * Resolve a channel reference
+   * Throws ChannelResolutionError when the input isn't a channel reference or
+   * no channel matches
+   */
+  async resolve(input: string): Promise<ResolvedChannel> {
+    const reference = this.parse(input);
+    if (!reference) {
+      throw new ChannelResolutionError(
+        `Not a YouTube channel reference: "${input}" (expected a UC… channel ID, @handle or channel URL)`,
+        input
+      );
+    }
+
+    const key = this.cacheKey(reference);
+    const cached = this.cache.get(key);
+    let channel: ResolvedChannel | null;
+
+    if (cached && cached.expiresAt > Date.now()) {
+      channel = cached.channel;
+    } else {
+      // Concurrent lookups of the same reference share one request
+      let lookup = this.pending.get(key);
+      if (!lookup) {
+        lookup = this.lookup(reference).finally(() =>
+          this.pending.delete(key)
+        );
+        this.pending.set(key, lookup);
+      }
+      channel = await lookup;
+      this.store(key, channel);
+    }
+
+    if (!channel) {
+      throw new ChannelResolutionError(
+        `YouTube channel not found for "${input}"`,
+        input
+      );
+    }
+    return channel;
+  }
+
+  /**
+   * Canonical channel ID for a reference (UC… IDs are returned as is,
+   * without an API call)
+   */
+  async resolveChannelId(input: string): Promise<string> {
+    if (this.isChannelId(input)) return input.trim();
+    return (await this.resolve(input)).channelId;
+  }
+
+  isChannelId(input: string): boolean {
+    return CHANNEL_ID_PATTERN.test((input || "").trim());
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private async lookup(
+    reference: ChannelReference
+  ): Promise<ResolvedChannel | null> {
+    logger.debug(`🔎 Resolving channel ${reference.kind} ${reference.value}`);
+
+    switch (reference.kind) {
+      case "id":
+        return this.toResolved(
+          await youtubeService.findChannel({ id: reference.value })
+        );
+      case "handle":
+        return this.toResolved(
+          await youtubeService.findChannel({ forHandle: reference.value })
+        );
+      case "username": {
+        const channel = await youtubeService.findChannel({
+          forUsername: reference.value,
+        });
+        if (channel) return this.toResolved(channel);
+        // Many /user/ names are only reachable through the channel page
+        return this.lookupByPage(`/user/${reference.value}`);
+      }
+      case "custom":
+        return this.lookupByPage(`/c/${reference.value}`);
+    }
+  }
+
+  // Legacy custom URLs have no Data API lookup: read the channel ID from the
+  // page's canonical link (no quota), then load the channel by ID
+  private async lookupByPage(
+    pagePath: string
+  ): Promise<ResolvedChannel | null> {
+    let html: string;
+    try {
+      const response = await axios.get(`${YOUTUBE_URL}${pagePath}`, {
+        timeout: config.youtubeFeed.timeoutMs,
+        responseType: "text",
+        // Skip the EU consent interstitial
+        headers: { Cookie: "CONSENT=YES+1" },
+      });
+      html = response.data;
+    } catch (error: any) {
+      if (error.response?.status === 404) return null;
+      throw error;
+    }
+
+    const $ = cheerio.load(html);
+    const candidates = [
+      $('meta[itemprop="identifier"]').attr("content"),
+      $('link[rel="canonical"]').attr("href")?.split("/channel/")[1],
+      html.match(/"externalId":"(UC[a-zA-Z0-9_-]{22})"/)?.[1],
+    ];
+    const channelId = candidates.find(
+      (candidate) => candidate && CHANNEL_ID_PATTERN.test(candidate)
+    );
+    if (!channelId) return null;
+
+    const channel = this.toResolved(
+      await youtubeService.findChannel({ id: channelId })
+    );
+    // The page already proved the ID, cache it under its own key too
+    if (channel) {
+      this.store(this.cacheKey({ kind: "id", value: channelId }), channel);
+    }
+    return channel;
+  }
+
+  private parse(input: string): ChannelReference | null {
+    const trimmed = (input || "").trim();
+    if (!trimmed) return null;
+
+    if (CHANNEL_ID_PATTERN.test(trimmed)) {
+      return { kind: "id", value: trimmed };
+    }
+    if (!/youtube\.com/i.test(trimmed)) {
+      return HANDLE_PATTERN.test(trimmed)
+        ? { kind: "handle", value: this.toHandle(trimmed) }
+        : null;
+    }
+
+    let url: URL;
+    try {
+      url = new URL(
+        /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`
+      );
+    } catch {
+      return null;
+    }
+    if (!/(^|\.)youtube\.com$/i.test(url.hostname)) return null;
+
+    const [first, second] = url.pathname
+      .split("/")
+      .filter(Boolean)
+      .map((segment) => decodeURIComponent(segment));
+    if (!first) return null;
+
+    if (first.startsWith("@")) {
+      return HANDLE_PATTERN.test(first)
+        ? { kind: "handle", value: first }
+        : null;
+    }
+    if (first === "channel") {
+      return second && CHANNEL_ID_PATTERN.test(second)
+        ? { kind: "id", value: second }
+        : null;
+    }
+    if (first === "user") {
+      return second ? { kind: "username", value: second } : null;
+    }
+    if (first === "c") {
+      return second ? { kind: "custom", value: second } : null;
+    }
+    // Vanity URLs (youtube.com/name) behave like /c/ URLs
+    const reserved = ["watch", "shorts", "playlist", "results", "feed", "live"];
+    return reserved.includes(first) ? null : { kind: "custom", value: first };
+  }
+
+  private toHandle(value: string): string {
+    return value.startsWith("@") ? value : `@${value}`;
+  }
+
+  private toResolved(
+    channel: Awaited<ReturnType<typeof youtubeService.findChannel>>
+  ): ResolvedChannel | null {
+    if (!channel) return null;
+    return {
+      channelId: channel.id,
+      title: channel.title,
+      handle: channel.handle,
+      raw: channel.raw,
+    };
+  }
+
+  // Handles and custom URLs are case-insensitive, channel IDs are not
+  private cacheKey(reference: ChannelReference): string {
+    return reference.kind === "id"
+      ? `id:${reference.value}`
+      : `${reference.kind}:${reference.value.toLowerCase()}`;
+  }
+
+  private store(key: string, channel: ResolvedChannel | null): void {
+    const ttl = channel
+      ? config.channelResolver.cacheHours * 3600000
+      : NEGATIVE_CACHE_MS;
+    this.cache.set(key, { channel, expiresAt: Date.now() + ttl });
+  }
+}
+
+export const channelResolverService = new ChannelResolverService();
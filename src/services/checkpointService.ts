@@ -0,0 +1,167 @@
+import { PipelineStage, StageCheckpoint } from "../types";
+import { logger } from "../utils";
+import { supabaseService } from "../supabase";
+
+const CHECKPOINT_TABLE = "run_checkpoints";
+
+/**
+ * Checkpoint Service
+ * Persists per-stage progress (cursor + processed IDs) to run_checkpoints so a
+ * run that dies halfway can be restarted with the same run_id and resume.
+ * Cursor-paged stages resume after the cursor, so moving it drops the IDs
+ * recorded before; only stages without a cursor keep a growing ID list.
+ */
+class CheckpointService {
+  private runId = "";
+  private checkpoints = new Map<PipelineStage, StageCheckpoint>();
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * Load all checkpoints previously committed for a run
+   */
+  async load(runId: string): Promise<void> {
+    this.runId = runId;
+    this.checkpoints.clear();
+
+    try {
+      const { data, error } = await supabaseService.supabase
+        .from(CHECKPOINT_TABLE)
+        .select("*")
+        .eq("run_id", runId);
+
+      if (error) {
+        logger.warn("Failed to load run checkpoints, starting fresh", {
+          runId,
+          error: error.message,
+        });
+        return;
+      }
+
+      for (const row of data || []) {
+        this.checkpoints.set(row.stage, {
+          run_id: row.run_id,
+          stage: row.stage,
+          cursor: row.cursor ?? null,
+          processed_ids: row.processed_ids || [],
+          completed: !!row.completed,
+          updated_at: row.updated_at,
+        });
+      }
+
+      if (this.checkpoints.size > 0) {
+        logger.info(`📍 Loaded ${this.checkpoints.size} stage checkpoint(s)`, {
+          runId,
+          stages: Array.from(this.checkpoints.values()).map((c) => ({
+            stage: c.stage,
+            completed: c.completed,
+            cursor: c.cursor,
+            processed: c.processed_ids.length,
+          })),
+        });
+      }
+    } catch (err: any) {
+      logger.warn("Error loading run checkpoints", { error: err.message });
+    }
+  }
+
+  get(stage: PipelineStage): StageCheckpoint | null {
+    return this.checkpoints.get(stage) || null;
+  }
+
+  isCompleted(stage: PipelineStage): boolean {
+    return !!this.checkpoints.get(stage)?.completed;
+  }
+
+  isProcessed(stage: PipelineStage, id: string): boolean {
+    return !!this.checkpoints.get(stage)?.processed_ids.includes(id);
+  }
+
+  /**
+   * Commit stage progress: move the cursor and/or record processed IDs
+   * (IDs handled past the new cursor; the ones before it are covered by it)
+   */
+  async commit(
+    stage: PipelineStage,
+    update: { cursor?: string | null; processedIds?: string[] }
+  ): Promise<void> {
+    const checkpoint = this.getOrCreate(stage);
+
+    if (update.cursor !== undefined) {
+      checkpoint.cursor = update.cursor;
+      checkpoint.processed_ids = [];
+    }
+    for (const id of update.processedIds || []) {
+      if (!checkpoint.processed_ids.includes(id)) {
+        checkpoint.processed_ids.push(id);
+      }
+    }
+
+    await this.persist(checkpoint);
+  }
+
+  /**
+   * Mark a stage as fully completed so resumed segments skip it
+   */
+  async complete(stage: PipelineStage): Promise<void> {
+    const checkpoint = this.getOrCreate(stage);
+    checkpoint.completed = true;
+    await this.persist(checkpoint);
+  }
+
+  private getOrCreate(stage: PipelineStage): StageCheckpoint {
+    let checkpoint = this.checkpoints.get(stage);
+    if (!checkpoint) {
+      checkpoint = {
+        run_id: this.runId,
+        stage,
+        cursor: null,
+        processed_ids: [],
+        completed: false,
+        updated_at: new Date().toISOString(),
+      };
+      this.checkpoints.set(stage, checkpoint);
+    }
+    return checkpoint;
+  }
+
+  // Writes are chained so concurrent workers can't land an older snapshot last
+  private persist(checkpoint: StageCheckpoint): Promise<void> {
+    this.writes = this.writes.then(() => this.write(checkpoint));
+    return this.writes;
+  }
+
+  private async write(checkpoint: StageCheckpoint): Promise<void> {
+    if (!this.runId) {
+      logger.warn(`Cannot save checkpoint for ${checkpoint.stage}: run_id is missing`);
+      return;
+    }
+
+    checkpoint.run_id = this.runId;
+    checkpoint.updated_at = new Date().toISOString();
+
+    try {
+      const { error } = await supabaseService.supabase
+        .from(CHECKPOINT_TABLE)
+        .upsert(checkpoint, { onConflict: "run_id,stage" });
+
+      if (error) {
+        logger.warn(`Failed to save checkpoint for stage ${checkpoint.stage}`, {
+          error: error.message,
+        });
+        return;
+      }
+
+      logger.debug(`📍 Checkpoint saved for stage ${checkpoint.stage}`, {
+        cursor: checkpoint.cursor,
+        processed: checkpoint.processed_ids.length,
+        completed: checkpoint.completed,
+      });
+    } catch (err: any) {
+      logger.warn(`Error saving checkpoint for stage ${checkpoint.stage}`, {
+        error: err.message,
+      });
+    }
+  }
+}
+
+export const checkpointService = new CheckpointService();
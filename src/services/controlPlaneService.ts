@@ -0,0 +1,277 @@
+import http from "http";
+import crypto from "crypto";
+import { config } from "../config";
+import { ConfigurationError, RunLockError, ValidationError } from "../errors";
+import { RunReport, StageSelection } from "../types";
+import { logger, isValidYouTubeVideoId } from "../utils";
+import { resolveStageSelection } from "../stageSelection";
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+export interface TranscriptServiceProbe {
+  name: string;
+  isConfigured(): boolean;
+  testConnection(): Promise<boolean>;
+}
+
+/**
+ * Everything the control plane needs from the tracker
+ * Injected so the server can run against local stand-ins
+ */
+export interface ControlPlaneHandlers {
+  healthCheck(): Promise<{ database: boolean; tables: any; stats: any }>;
+  transcriptServices: TranscriptServiceProbe[];
+  isRunning(): boolean;
+  getCurrentRun(): RunReport | null;
+  // Starts a run in the background and returns its run_id once the run holds
+  // the run lock (rejects with RunLockError when another run holds it)
+  triggerRun(selection: StageSelection): Promise<string>;
+  // Runs under the run lock (rejects with RunLockError when a run holds it)
+  reprocessVideo(videoId: string): Promise<Record<string, any>>;
+}
+
+// Error carrying the HTTP status to respond with
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/**
+ * Control Plane Server
+ * Optional token-protected HTTP API for status, health and manual triggers:
+ *   GET  /health                 Supabase + transcript service health
+ *   GET  /runs/current           Live run report
+ *   POST /runs                   Trigger a run ({ stages, skip, dryRun })
+ *   POST /videos/:id/reprocess   Re-run one video
+ */
+export class ControlPlaneServer {
+  private server: http.Server | null = null;
+  private healthCache: { at: number; status: number; body: any } | null = null;
+
+  constructor(
+    private readonly handlers: ControlPlaneHandlers,
+    private readonly options = config.controlPlane
+  ) {}
+
+  async start(): Promise<void> {
+    if (!this.options.token) {
+      throw new ConfigurationError(
+        "CONTROL_PLANE_TOKEN is required when the control plane is enabled"
+      );
+    }
+
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        logger.error("Control plane request failed", { error });
+        this.send(res, 500, { error: "Internal server error" });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(this.options.port, this.options.host, () => resolve());
+    });
+
+    logger.info(
+      `🛰️ Control plane listening on http://${this.options.host}:${this.getPort()}`
+    );
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    logger.info("🛰️ Control plane stopped");
+  }
+
+  // Actual port (useful when started on port 0)
+  getPort(): number {
+    const address = this.server?.address();
+    return address && typeof address === "object"
+      ? address.port
+      : this.options.port;
+  }
+
+  private async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url || "/", "http://localhost");
+    const method = req.method || "GET";
+
+    if (!this.isAuthorized(req)) {
+      this.send(res, 401, { error: "Unauthorized" });
+      return;
+    }
+
+    try {
+      if (method === "GET" && url.pathname === "/health") {
+        const { status, body } = await this.getHealth();
+        this.send(res, status, body);
+        return;
+      }
+
+      if (method === "GET" && url.pathname === "/runs/current") {
+        const report = this.handlers.getCurrentRun();
+        if (!report) throw new HttpError(404, "No run has started yet");
+        this.send(res, 200, { running: this.handlers.isRunning(), report });
+        return;
+      }
+
+      if (method === "POST" && url.pathname === "/runs") {
+        const body = await this.readJson(req);
+        const selection = this.parseSelection(body);
+        if (this.handlers.isRunning()) {
+          throw new HttpError(409, "A run is already in progress");
+        }
+        const runId = await this.handlers.triggerRun(selection);
+        logger.info("🛰️ Run triggered via control plane", {
+          runId,
+          stages: selection.stages,
+        });
+        this.send(res, 202, { run_id: runId, selection });
+        return;
+      }
+
+      const reprocess = url.pathname.match(/^\/videos\/([^/]+)\/reprocess$/);
+      if (method === "POST" && reprocess) {
+        const videoId = decodeURIComponent(reprocess[1]);
+        if (!isValidYouTubeVideoId(videoId)) {
+          throw new HttpError(400, `Invalid video ID: ${videoId}`);
+        }
+        if (this.handlers.isRunning()) {
+          throw new HttpError(409, "A run is in progress, try again later");
+        }
+        const result = await this.handlers.reprocessVideo(videoId);
+        this.send(res, 200, { video_id: videoId, ...result });
+        return;
+      }
+
+      throw new HttpError(404, `No route for ${method} ${url.pathname}`);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        this.send(res, error.status, { error: error.message });
+      } else if (
+        error instanceof ConfigurationError ||
+        error instanceof ValidationError
+      ) {
+        this.send(res, 400, { error: error.message });
+      } else if (error instanceof RunLockError) {
+        this.send(res, 409, { error: error.message, holder: error.holder });
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  // Bearer token (constant-time compare)
+  private isAuthorized(req: http.IncomingMessage): boolean {
+    const header = req.headers.authorization || "";
+    const token = header.startsWith("Bearer ") ? header.substring(7) : "";
+    const expected = Buffer.from(this.options.token);
+    const actual = Buffer.from(token);
+    return (
+      actual.length === expected.length &&
+      crypto.timingSafeEqual(actual, expected)
+    );
+  }
+
+  // Health is cached briefly since some provider tests consume credits
+  private async getHealth(): Promise<{ status: number; body: any }> {
+    const cacheMs = this.options.healthCacheSeconds * 1000;
+    if (this.healthCache && Date.now() - this.healthCache.at < cacheMs) {
+      return this.healthCache;
+    }
+
+    const database = await this.handlers.healthCheck();
+    const transcripts: Record<string, string> = {};
+    for (const service of this.handlers.transcriptServices) {
+      if (!service.isConfigured()) {
+        transcripts[service.name] = "not_configured";
+        continue;
+      }
+      try {
+        transcripts[service.name] = (await service.testConnection())
+          ? "ok"
+          : "failed";
+      } catch (error) {
+        transcripts[service.name] = "failed";
+      }
+    }
+
+    const healthy =
+      database.database && Object.values(transcripts).includes("ok");
+    const result = {
+      at: Date.now(),
+      status: healthy ? 200 : 503,
+      body: {
+        status: healthy ? "ok" : "degraded",
+        checked_at: new Date().toISOString(),
+        running: this.handlers.isRunning(),
+        database,
+        transcripts,
+      },
+    };
+
+    this.healthCache = result;
+    return result;
+  }
+
+  // { stages, skip, dryRun } -> same rules as --stages / --skip / --dry-run
+  private parseSelection(body: any): StageSelection {
+    const toList = (value: any, field: string): string | undefined => {
+      if (value === undefined || value === null) return undefined;
+      if (Array.isArray(value)) return value.join(",");
+      if (typeof value === "string") return value;
+      throw new HttpError(400, `"${field}" must be a string or array`);
+    };
+
+    const args: string[] = [];
+    const stages = toList(body.stages, "stages");
+    const skip = toList(body.skip, "skip");
+    if (stages !== undefined) args.push(`--stages=${stages}`);
+    if (skip !== undefined) args.push(`--skip=${skip}`);
+    if (body.dryRun === true) {
+      args.push("--dry-run");
+    } else if (body.dryRun !== undefined && body.dryRun !== false) {
+      args.push(`--dry-run=${toList(body.dryRun, "dryRun")}`);
+    }
+
+    return resolveStageSelection(args);
+  }
+
+  private async readJson(req: http.IncomingMessage): Promise<any> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        throw new HttpError(413, "Request body too large");
+      }
+      chunks.push(chunk);
+    }
+
+    const raw = Buffer.concat(chunks).toString("utf8").trim();
+    if (!raw) return {};
+
+    try {
+      const parsed = JSON.parse(raw);
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        throw new Error("not an object");
+      }
+      return parsed;
+    } catch (error) {
+      throw new HttpError(400, "Request body must be a JSON object");
+    }
+  }
+
+  private send(res: http.ServerResponse, status: number, body: any): void {
+    if (res.headersSent) return;
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,215 @@
+import { config } from "../config";
+import { DeferredVideo, VideoDeferralReason, YouTubeVideo } from "../types";
+import { logger } from "../utils";
+import { supabaseService } from "../supabase";
+
+const DEFERRED_TABLE = "deferred_videos";
+
+/**
+ * Deferred Video Service
+ * Queue of live streams and premieres skipped by channel processing.
+ * The live_videos stage re-checks due entries and processes them once the
+ * stream has ended and captions had time to appear.
+ */
+class DeferredVideoService {
+  /**
+   * Queue a video that can't be processed yet (no-op if already queued)
+   */
+  async defer(
+    video: YouTubeVideo,
+    channelId: string,
+    reason: VideoDeferralReason
+  ): Promise<boolean> {
+    const now = new Date();
+    const record: Partial<DeferredVideo> = {
+      video_id: video.videoId,
+      channel_id: channelId,
+      video_title: video.title,
+      published_at: video.publishedAt,
+      reason,
+      status: "waiting",
+      scheduled_start_at: video.scheduledStartTime || null,
+      attempts: 0,
+      failures: 0,
+      first_seen_at: now.toISOString(),
+      next_check_at: this.nextCheckAt(video, reason, now).toISOString(),
+    };
+
+    try {
+      const { data, error } = await supabaseService.supabase
+        .from(DEFERRED_TABLE)
+        .upsert(record, { onConflict: "video_id", ignoreDuplicates: true })
+        .select("video_id");
+
+      if (error) {
+        logger.warn(`Failed to defer video ${video.videoId}`, {
+          error: error.message,
+        });
+        return false;
+      }
+
+      const queued = (data || []).length > 0;
+      if (queued) {
+        logger.info(
+          `📡 Deferred ${reason} video ${video.videoId} (${video.title}) until ${record.next_check_at}`
+        );
+      }
+      return queued;
+    } catch (err: any) {
+      logger.warn(`Error deferring video ${video.videoId}`, {
+        error: err.message,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Waiting videos whose next check is due (oldest first)
+   */
+  async getDue(limit: number = 200): Promise<DeferredVideo[]> {
+    const { data, error } = await supabaseService.supabase
+      .from(DEFERRED_TABLE)
+      .select("*")
+      .eq("status", "waiting")
+      .lte("next_check_at", new Date().toISOString())
+      .order("next_check_at", { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      logger.warn("Failed to load deferred videos", { error: error.message });
+      return [];
+    }
+    return (data || []) as DeferredVideo[];
+  }
+
+  /**
+   * Still not ready: check again later, or give up after LIVE_MAX_WAIT_HOURS
+   * Returns false when the video expired
+   */
+  async reschedule(
+    record: DeferredVideo,
+    reason: VideoDeferralReason,
+    video?: YouTubeVideo
+  ): Promise<boolean> {
+    const now = new Date();
+    // Waiting starts at the scheduled start for premieres announced in advance
+    const waitingSince = Math.max(
+      new Date(record.first_seen_at).getTime(),
+      video?.scheduledStartTime
+        ? new Date(video.scheduledStartTime).getTime()
+        : 0
+    );
+
+    const maxWaitMs = config.liveVideos.maxWaitHours * 3600000;
+    if (now.getTime() - waitingSince > maxWaitMs) {
+      await this.resolve(record.video_id, "expired", `still ${reason}`);
+      return false;
+    }
+
+    await this.update(record.video_id, {
+      reason,
+      attempts: record.attempts + 1,
+      scheduled_start_at: video?.scheduledStartTime || record.scheduled_start_at,
+      last_checked_at: now.toISOString(),
+      next_check_at: this.nextCheckAt(video, reason, now).toISOString(),
+    });
+    return true;
+  }
+
+  /**
+   * Processing failed: retry after the recheck interval, or give up after
+   * LIVE_MAX_FAILURES failures or LIVE_MAX_WAIT_HOURS in the queue
+   * Returns false when the video expired
+   */
+  async recordFailure(record: DeferredVideo, message: string): Promise<boolean> {
+    const now = new Date();
+    const failures = (record.failures || 0) + 1;
+    const waitedMs = now.getTime() - new Date(record.first_seen_at).getTime();
+
+    if (
+      failures >= config.liveVideos.maxFailures ||
+      waitedMs > config.liveVideos.maxWaitHours * 3600000
+    ) {
+      await this.update(record.video_id, { failures });
+      await this.resolve(
+        record.video_id,
+        "expired",
+        `processing failed ${failures} time(s): ${message}`
+      );
+      return false;
+    }
+
+    await this.update(record.video_id, {
+      failures,
+      last_checked_at: now.toISOString(),
+      next_check_at: new Date(
+        now.getTime() + config.liveVideos.recheckMinutes * 60000
+      ).toISOString(),
+    });
+    return true;
+  }
+
+  /**
+   * Finish a queue entry
+   */
+  async resolve(
+    videoId: string,
+    status: "processed" | "expired",
+    note: string | null = null
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    await this.update(videoId, {
+      status,
+      note,
+      last_checked_at: now,
+      resolved_at: now,
+    });
+    if (status === "expired") {
+      logger.warn(
+        `⌛ Deferred video ${videoId} expired${note ? `: ${note}` : ""}`
+      );
+    }
+  }
+
+  private async update(
+    videoId: string,
+    fields: Partial<DeferredVideo>
+  ): Promise<void> {
+    const { error } = await supabaseService.supabase
+      .from(DEFERRED_TABLE)
+      .update(fields)
+      .eq("video_id", videoId);
+
+    if (error) {
+      logger.warn(`Failed to update deferred video ${videoId}`, {
+        error: error.message,
+      });
+    }
+  }
+
+  // Upcoming: shortly after the scheduled start; ended: once captions should
+  // exist; live (or unknown): after the recheck interval
+  private nextCheckAt(
+    video: YouTubeVideo | undefined,
+    reason: VideoDeferralReason,
+    now: Date
+  ): Date {
+    const recheckMs = config.liveVideos.recheckMinutes * 60000;
+    let next = now.getTime() + recheckMs;
+
+    if (reason === "upcoming" && video?.scheduledStartTime) {
+      next = Math.max(
+        next,
+        new Date(video.scheduledStartTime).getTime() + recheckMs
+      );
+    } else if (reason === "captions_pending" && video?.actualEndTime) {
+      next =
+        new Date(video.actualEndTime).getTime() +
+        config.liveVideos.captionDelayMinutes * 60000;
+    }
+
+    return new Date(next);
+  }
+}
+
+export const deferredVideoService = new DeferredVideoService();
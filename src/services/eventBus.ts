@@ -0,0 +1,188 @@
+import crypto from "crypto";
+import { logger } from "../utils";
+import { VideoAvailabilityChange } from "../types";
+
+/**
+ * Domain events and their payloads
+ * Add new events here; emitters and subscribers are type-checked against it
+ */
+export interface DomainEventMap {
+  // A video row was written to finfluencer_predictions
+  "video.analyzed": {
+    recordId: string;
+    videoId: string;
+    channelId: string;
+    channelName: string;
+    videoTitle: string;
+    postDate: string;
+    subjectOutcome: "pending" | "analyzed" | "out_of_subject";
+    hasTranscript: boolean;
+    predictionsCount: number;
+    isRetry: boolean;
+  };
+
+  // A prediction was upserted into combined_predictions
+  "prediction.inserted": {
+    videoId: string;
+    channelId: string;
+    asset: string;
+    assetType: string;
+    sentiment: string;
+    entryPrice: number | null;
+    targetPrice: string | null;
+    horizonEndDate: string;
+  };
+
+  // A combined prediction resolved after its horizon passed
+  "prediction.resolved": {
+    predictionId: string;
+    asset: string;
+    status: "correct" | "wrong";
+    actualPrice: number | null;
+    metDate: string | null;
+    aiAgrees: boolean | null;
+  };
+
+  // The availability sweep found a source video deleted, privated or edited
+  "video.availability_changed": {
+    videoId: string;
+    channelId: string;
+    change: VideoAvailabilityChange;
+    previous: string | null;
+    current: string | null;
+    predictionsFlagged: number;
+  };
+
+  // Offering evaluation outcomes
+  "offering.approved": {
+    offeringId: string;
+    channelId: string;
+    channelName: string;
+    subscriberCount: number;
+    videoCountLastYear: number;
+  };
+  "offering.rejected": {
+    offeringId: string;
+    channelId: string;
+    reason: string;
+    subscriberCount: number;
+    videoCountLastYear: number;
+  };
+  "offering.retry_scheduled": {
+    offeringId: string;
+    channelId: string;
+    retryCount: number;
+    nextRetryAt: string;
+  };
+}
+
+export type DomainEventType = keyof DomainEventMap;
+
+export interface DomainEvent<K extends DomainEventType = DomainEventType> {
+  id: string;
+  type: K;
+  occurred_at: string;
+  run_id: string | null;
+  payload: DomainEventMap[K];
+}
+
+// Union of every concrete event (lets subscribers narrow on `type`)
+export type AnyDomainEvent = {
+  [K in DomainEventType]: DomainEvent<K>;
+}[DomainEventType];
+
+/**
+ * Subscriber attached to the bus (webhooks, outbox writers, metrics, ...)
+ * Handlers run after the emitting code continues; failures are logged and
+ * never reach the emitter
+ */
+export interface DomainEventSubscriber {
+  name: string;
+  events?: DomainEventType[]; // Omit to receive every event
+  handle(event: AnyDomainEvent): void | Promise<void>;
+}
+
+/**
+ * Domain Event Bus
+ * Typed in-process pub/sub for business events
+ */
+class DomainEventBus {
+  private subscribers: DomainEventSubscriber[] = [];
+  private pending = new Set<Promise<void>>();
+  private runId: string | null = null;
+
+  /**
+   * Attach a subscriber; returns a function that detaches it
+   */
+  subscribe(subscriber: DomainEventSubscriber): () => void {
+    this.subscribers.push(subscriber);
+    logger.debug(`📣 Event subscriber attached: ${subscriber.name}`, {
+      events: subscriber.events || "all",
+    });
+    return () => {
+      this.subscribers = this.subscribers.filter((s) => s !== subscriber);
+    };
+  }
+
+  /**
+   * Subscribe a single handler to one event type
+   */
+  on<K extends DomainEventType>(
+    type: K,
+    handler: (event: DomainEvent<K>) => void | Promise<void>,
+    name: string = `${type}-handler`
+  ): () => void {
+    return this.subscribe({
+      name,
+      events: [type],
+      handle: (event) => handler(event as DomainEvent<K>),
+    });
+  }
+
+  // Run id stamped on every event emitted from now on
+  setRunId(runId: string | null): void {
+    this.runId = runId;
+  }
+
+  /**
+   * Emit an event to all interested subscribers (never throws)
+   */
+  emit<K extends DomainEventType>(type: K, payload: DomainEventMap[K]): void {
+    const targets = this.subscribers.filter(
+      (s) => !s.events || s.events.includes(type)
+    );
+    if (targets.length === 0) return;
+
+    const event = {
+      id: crypto.randomUUID(),
+      type,
+      occurred_at: new Date().toISOString(),
+      run_id: this.runId,
+      payload,
+    } as AnyDomainEvent;
+
+    for (const subscriber of targets) {
+      const delivery = Promise.resolve()
+        .then(() => subscriber.handle(event))
+        .catch((error) => {
+          logger.warn(`Event subscriber ${subscriber.name} failed for ${type}`, {
+            eventId: event.id,
+            error: (error as Error)?.message || error,
+          });
+        })
+        .finally(() => this.pending.delete(delivery));
+      this.pending.add(delivery);
+    }
+  }
+
+  /**
+   * Wait for in-flight deliveries (call before the process exits)
+   */
+  async flush(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.allSettled(Array.from(this.pending));
+    }
+  }
+}
+
+export const eventBus = new DomainEventBus();
@@ -0,0 +1,287 @@
+import axios from "axios";
+import { config } from "../config";
+import { RunReport } from "../types";
+import { logger, retryWithBackoff } from "../utils";
+
+export type NotificationSeverity = "info" | "warning" | "critical";
+export type WebhookFormat = "json" | "slack";
+
+export interface WebhookTarget {
+  url: string;
+  format: WebhookFormat;
+}
+
+export interface RunNotificationSummary {
+  run_id: string;
+  status: RunReport["status"];
+  severity: NotificationSeverity;
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+  version: string;
+  stages: {
+    executed: string[];
+    skipped: string[];
+    failed: string[];
+    deferred: string[];
+  };
+  counts: {
+    channels: RunReport["channels"];
+    videos: RunReport["videos"];
+    transcripts: { fetched: number; failed: number };
+    ai_analysis: RunReport["ai_analysis"];
+    combined_predictions: RunReport["combined_predictions"];
+    verification: RunReport["verification"];
+    news: RunReport["news"];
+    offerings: RunReport["offerings"];
+  };
+  top_errors: Array<{ message: string; count: number }>;
+}
+
+const SEVERITY_RANK: Record<NotificationSeverity, number> = {
+  info: 0,
+  warning: 1,
+  critical: 2,
+};
+
+const STATUS_SEVERITY: Record<RunReport["status"], NotificationSeverity> = {
+  running: "info",
+  success: "info",
+  partial: "warning",
+  failed: "critical",
+};
+
+const TOP_ERRORS = 5;
+
+/**
+ * Parse NOTIFY_WEBHOOK_URLS: comma-separated URLs, optionally prefixed with
+ * "slack:" or "json:" (Slack incoming-webhook URLs are detected automatically)
+ */
+export function parseWebhookTargets(value: string): WebhookTarget[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const prefixed = entry.match(/^(slack|json):(https?:\/\/.+)$/i);
+      if (prefixed) {
+        return {
+          format: prefixed[1].toLowerCase() as WebhookFormat,
+          url: prefixed[2],
+        };
+      }
+      return {
+        format: entry.includes("hooks.slack.com") ? "slack" : "json",
+        url: entry,
+      };
+    });
+}
+
+/**
+ * Notification Service
+ * Posts a summary of the finalized RunReport to webhooks when the run's
+ * severity reaches config.notifications.minSeverity
+ */
+class NotificationService {
+  /**
+   * Notify all webhooks about a finished run (never throws)
+   */
+  async notifyRunFinished(report: RunReport): Promise<void> {
+    const targets = parseWebhookTargets(config.notifications.webhookUrls);
+    if (targets.length === 0) return;
+
+    const summary = this.buildSummary(report);
+    const minSeverity = config.notifications.minSeverity;
+
+    if (SEVERITY_RANK[summary.severity] < SEVERITY_RANK[minSeverity]) {
+      logger.debug(
+        `🔕 Run ${summary.status} (${summary.severity}) below notification threshold ${minSeverity}`
+      );
+      return;
+    }
+
+    await Promise.all(targets.map((target) => this.send(target, summary)));
+  }
+
+  buildSummary(report: RunReport): RunNotificationSummary {
+    return {
+      run_id: report.run_id,
+      status: report.status,
+      severity: STATUS_SEVERITY[report.status] || "info",
+      started_at: report.started_at,
+      finished_at: report.finished_at,
+      duration_ms: report.duration_ms,
+      version: report.version,
+      stages: {
+        executed: report.stages?.executed || [],
+        skipped: report.stages?.skipped || [],
+        failed: report.stages?.failed || [],
+        deferred: (report.deferred || []).map((d) => d.stage),
+      },
+      counts: {
+        channels: report.channels,
+        videos: report.videos,
+        transcripts: {
+          fetched: report.transcripts.fetched,
+          failed: report.transcripts.failed,
+        },
+        ai_analysis: report.ai_analysis,
+        combined_predictions: report.combined_predictions,
+        verification: report.verification,
+        news: report.news,
+        offerings: report.offerings,
+      },
+      top_errors: this.topErrors(report.system.errors),
+    };
+  }
+
+  // Most frequent errors first
+  private topErrors(errors: string[]): Array<{ message: string; count: number }> {
+    const counts = new Map<string, number>();
+    for (const error of errors || []) {
+      counts.set(error, (counts.get(error) || 0) + 1);
+    }
+    return Array.from(counts.entries())
+      .map(([message, count]) => ({ message, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, TOP_ERRORS);
+  }
+
+  private async send(
+    target: WebhookTarget,
+    summary: RunNotificationSummary
+  ): Promise<void> {
+    const payload =
+      target.format === "slack"
+        ? this.formatSlack(summary)
+        : { event: "run.finished", ...summary };
+    const host = this.safeHost(target.url);
+
+    try {
+      await retryWithBackoff(
+        () =>
+          axios.post(target.url, payload, {
+            timeout: config.notifications.timeoutMs,
+            headers: { "Content-Type": "application/json" },
+          }),
+        config.notifications.maxRetries,
+        config.notifications.retryDelayMs
+      );
+      logger.info(`📨 Run notification sent to ${host}`, {
+        format: target.format,
+        status: summary.status,
+      });
+    } catch (error) {
+      logger.warn(`Failed to send run notification to ${host}`, {
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  // Slack incoming-webhook message (Block Kit)
+  private formatSlack(summary: RunNotificationSummary): any {
+    const icon =
+      summary.status === "success"
+        ? "✅"
+        : summary.status === "partial"
+        ? "⚠️"
+        : "❌";
+    const c = summary.counts;
+    const duration = `${(summary.duration_ms / 1000).toFixed(1)}s`;
+    const title = `${icon} Finfluencer Tracker run ${summary.status.toUpperCase()}`;
+
+    const blocks: any[] = [
+      { type: "header", text: { type: "plain_text", text: title } },
+      {
+        type: "section",
+        fields: [
+          { type: "mrkdwn", text: `*Run ID:*\n${summary.run_id}` },
+          { type: "mrkdwn", text: `*Duration:*\n${duration}` },
+          {
+            type: "mrkdwn",
+            text: `*Channels:*\n${c.channels.processed}/${c.channels.total} (${c.channels.errors} errors)`,
+          },
+          {
+            type: "mrkdwn",
+            text: `*Videos:*\n${c.videos.processed} processed, ${c.videos.errors} errors`,
+          },
+          {
+            type: "mrkdwn",
+            text: `*Transcripts:*\n${c.transcripts.fetched} fetched, ${c.transcripts.failed} failed`,
+          },
+          {
+            type: "mrkdwn",
+            text: `*AI Analysis:*\n${c.ai_analysis.processed} processed, ${c.ai_analysis.predictions_extracted} predictions`,
+          },
+          {
+            type: "mrkdwn",
+            text: `*Combined:*\n${c.combined_predictions.inserted} inserted, ${c.combined_predictions.errors} errors`,
+          },
+          {
+            type: "mrkdwn",
+            text: `*Verification:*\n${c.verification.resolved_correct} correct, ${c.verification.resolved_wrong} wrong`,
+          },
+          {
+            type: "mrkdwn",
+            text: `*News:*\n${c.news.items_saved} saved, ${c.news.errors} errors`,
+          },
+          {
+            type: "mrkdwn",
+            text: `*Offerings:*\n${c.offerings.approved} approved, ${c.offerings.rejected} rejected`,
+          },
+        ],
+      },
+    ];
+
+    if (summary.stages.failed.length > 0) {
+      blocks.push({
+        type: "context",
+        elements: [
+          {
+            type: "mrkdwn",
+            text: `❌ Failed stages: ${summary.stages.failed.join(", ")}`,
+          },
+        ],
+      });
+    }
+
+    if (summary.stages.deferred.length > 0) {
+      blocks.push({
+        type: "context",
+        elements: [
+          {
+            type: "mrkdwn",
+            text: `⏱️ Deferred: ${summary.stages.deferred.join(", ")}`,
+          },
+        ],
+      });
+    }
+
+    if (summary.top_errors.length > 0) {
+      blocks.push({
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text:
+            "*Top errors:*\n" +
+            summary.top_errors
+              .map((e) => `• ${e.message.substring(0, 200)} (×${e.count})`)
+              .join("\n"),
+        },
+      });
+    }
+
+    return { text: title, blocks };
+  }
+
+  // Log only the host so webhook secrets in paths never reach the logs
+  private safeHost(url: string): string {
+    try {
+      return new URL(url).host;
+    } catch {
+      return "invalid-url";
+    }
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -10,8 +10,12 @@ import {
 } from "../types";
 import { logger, retryWithBackoff, cleanJsonResponse } from "../utils";
 import { config } from "../config";
+import { transcriptExpectations } from "../transcriptQuality";
 import { reportingService } from "./reportingService";
 import { AvatarService } from "./avatarService";
+import { eventBus } from "./eventBus";
+import { channelResolverService } from "./channelResolverService";
+import { ChannelResolutionError } from "../errors";
 import axios from "axios";
 
 /**
@@ -80,6 +84,9 @@ class OfferingEvaluationService {
           // Mark as processing (for resumability)
           await supabaseService.markOfferingProcessing(offering.id);
 
+          // Handles and channel URLs become the canonical channel ID
+          await this.resolveOfferingChannel(offering);
+
           // Run evaluation
           const result = await this.evaluateOffering(offering);
 
@@ -96,6 +103,12 @@ class OfferingEvaluationService {
           }
         } catch (error) {
           errors++;
+          // An unresolvable channel reference is the submitter's mistake,
+          // say so instead of reporting an evaluation error
+          const reason =
+            error instanceof ChannelResolutionError
+              ? error.message
+              : `Evaluation error: ${(error as Error).message}`;
           logger.error(
             `❌ Error evaluating offering ${offering.id}: ${
               (error as Error).message
@@ -109,7 +122,7 @@ class OfferingEvaluationService {
               status: "rejected",
               subscriberCount: 0,
               videoCountLastYear: 0,
-              rejectionReason: `Evaluation error: ${(error as Error).message}`,
+              rejectionReason: reason,
               evaluationDetails: {
                 channel_info: {
                   title: offering.channel_title || "Unknown",
@@ -136,7 +149,7 @@ class OfferingEvaluationService {
                 },
                 final_decision: {
                   result: "rejected",
-                  reason: `Evaluation error: ${(error as Error).message}`,
+                  reason,
                   decided_at: new Date().toISOString(),
                 },
               },
@@ -173,6 +186,29 @@ class OfferingEvaluationService {
     }
   }
 
+  /**
+   * Offerings may reference the channel by @handle or URL instead of its UC…
+   * ID: resolve it and store the canonical channel on the offering
+   */
+  private async resolveOfferingChannel(offering: Offering): Promise<void> {
+    if (channelResolverService.isChannelId(offering.channel_id)) return;
+
+    const reference =
+      [offering.channel_id, offering.channel_link, offering.channel_handle]
+        .map((value) => (value || "").trim())
+        .find(Boolean) || "";
+    const channel = await channelResolverService.resolve(reference);
+
+    logger.info(
+      `🔗 Resolved offering channel "${reference}" to ${channel.title} (${channel.channelId})`
+    );
+    await supabaseService.updateOfferingChannel(offering.id, channel);
+
+    offering.channel_id = channel.channelId;
+    offering.channel_title = offering.channel_title || channel.title;
+    offering.channel_handle = channel.handle || offering.channel_handle;
+  }
+
   /**
    * Evaluate a single offering against all criteria
    */
@@ -455,7 +491,10 @@ Respond in JSON format:
       try {
         // Get transcript
         const { transcript, error } = await youtubeService.getVideoTranscript(
-          video.videoId
+          video.videoId,
+          undefined,
+          undefined,
+          transcriptExpectations(video)
         );
 
         if (!transcript || transcript.trim().length === 0) {
@@ -612,6 +651,14 @@ Respond in JSON format:
         videoCountLastYear: result.videoCountLastYear,
         evaluationDetails: result.details,
       });
+
+      eventBus.emit("offering.approved", {
+        offeringId: offering.id,
+        channelId: offering.channel_id,
+        channelName: channelDetails.title,
+        subscriberCount: result.subscriberCount,
+        videoCountLastYear: result.videoCountLastYear,
+      });
     } else if (result.needsTranscriptRetry) {
       // Needs transcript retry - schedule for later evaluation
       const currentRetryCount = (offering.retry_count || 0) + 1;
@@ -628,6 +675,13 @@ Respond in JSON format:
         videoCountLastYear: result.videoCountLastYear,
         evaluationDetails: result.details,
       });
+
+      eventBus.emit("offering.retry_scheduled", {
+        offeringId: offering.id,
+        channelId: offering.channel_id,
+        retryCount: currentRetryCount,
+        nextRetryAt: nextRetryDate,
+      });
     } else {
       // Rejected
       await supabaseService.updateOfferingEvaluation(offering.id, {
@@ -638,6 +692,14 @@ Respond in JSON format:
         evaluationDetails: result.details,
         canResubmitAfter: this.getResubmitDate(),
       });
+
+      eventBus.emit("offering.rejected", {
+        offeringId: offering.id,
+        channelId: offering.channel_id,
+        reason: result.rejectionReason,
+        subscriberCount: result.subscriberCount,
+        videoCountLastYear: result.videoCountLastYear,
+      });
     }
   }
 
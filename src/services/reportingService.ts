@@ -1,4 +1,10 @@
-import { RunReport } from "../types";
+import {
+  DeferredWork,
+  PipelineStage,
+  RunReport,
+  StageSelection,
+} from "../types";
+import { config } from "../config";
 import { logger, getMemoryUsage } from "../utils";
 import { supabaseService } from "../supabase";
 
@@ -8,6 +14,8 @@ import { supabaseService } from "../supabase";
  */
 class ReportingService {
   private report: RunReport;
+  // Counters committed by earlier segments of a resumed run
+  private previousSegments: RunReport | null = null;
   private readonly APP_VERSION = "2.0.28";
 
   constructor() {
@@ -17,12 +25,75 @@ class ReportingService {
   /**
    * Initialize a new report at the start of a run
    */
-  initialize(): void {
+  initialize(runId?: string): void {
     this.report = this.createEmptyReport();
-    this.report.run_id = this.generateRunId();
+    this.report.run_id = runId || this.generateRunId();
     this.report.started_at = new Date().toISOString();
     this.report.status = "running";
     this.report.version = this.APP_VERSION;
+    this.previousSegments = null;
+    this.hasPersisted = false;
+  }
+
+  /**
+   * Resume an earlier run: counters from previous segments are kept aside and
+   * merged into every report produced by this segment
+   * Returns false (and starts a fresh report with that run_id) if none exists
+   */
+  async resume(runId: string): Promise<boolean> {
+    this.initialize(runId);
+
+    try {
+      const { data, error } = await supabaseService.supabase
+        .from("run_reports")
+        .select("report")
+        .eq("run_id", runId)
+        .single();
+
+      if (error || !data?.report) {
+        logger.warn(`No previous report found for run ${runId}, starting fresh`);
+        return false;
+      }
+
+      const previous = data.report as RunReport;
+      this.previousSegments = previous;
+      this.report.started_at = previous.started_at || this.report.started_at;
+      this.report.segments = (previous.segments || 1) + 1;
+      this.hasPersisted = true;
+
+      logger.info(`♻️ Resuming run ${runId} (segment ${this.report.segments})`, {
+        previousStatus: previous.status,
+        startedAt: previous.started_at,
+      });
+      return true;
+    } catch (err: any) {
+      logger.warn("Error loading previous run report", { error: err.message });
+      return false;
+    }
+  }
+
+  /**
+   * Find the most recent run that never finished (still marked "running")
+   */
+  async findResumableRunId(): Promise<string | null> {
+    try {
+      const { data, error } = await supabaseService.supabase
+        .from("run_reports")
+        .select("run_id")
+        .eq("status", "running")
+        .order("started_at", { ascending: false })
+        .limit(1);
+
+      if (error) {
+        logger.warn("Failed to look up resumable run", { error: error.message });
+        return null;
+      }
+
+      return data?.[0]?.run_id || null;
+    } catch (err: any) {
+      logger.warn("Error looking up resumable run", { error: err.message });
+      return null;
+    }
   }
 
   private createEmptyReport(): RunReport {
@@ -33,6 +104,20 @@ class ReportingService {
       duration_ms: 0,
       status: "running",
       version: this.APP_VERSION,
+      segments: 1,
+      stages: {
+        requested: [],
+        skipped: [],
+        dry_run: [],
+        executed: [],
+        failed: [],
+        blocked: [],
+      },
+      sections: {},
+      lock: { holder: "", acquired_at: "", expires_at: "", taken_over_from: null },
+      deferred: [],
+      youtube_quota: { rotations: 0, keys: {} },
+      transcript_spend: { currency: config.transcripts.currency, providers: {} },
       channels: { total: 0, processed: 0, errors: 0 },
       videos: { total: 0, processed: 0, skipped: 0, errors: 0 },
       transcripts: {
@@ -86,7 +171,8 @@ class ReportingService {
     };
   }
 
-  private generateRunId(): string {
+  // Also used to name a run before its report is initialized (run lock)
+  generateRunId(): string {
     return `${Date.now().toString(36)}-${Math.random()
       .toString(36)
       .substring(2, 8)}`;
@@ -96,6 +182,110 @@ class ReportingService {
   // INCREMENT METHODS
   // ═══════════════════════════════════════════════════════════════
 
+  // Stages
+  setStagePlan(selection: StageSelection): void {
+    this.report.stages.requested = [...selection.stages];
+    this.report.stages.skipped = [...selection.skipped];
+    this.report.stages.dry_run = [...selection.dryRun];
+  }
+  markStageExecuted(stage: PipelineStage): void {
+    if (!this.report.stages.executed.includes(stage)) {
+      this.report.stages.executed.push(stage);
+    }
+  }
+
+  markStageFailed(stage: PipelineStage): void {
+    if (!this.report.stages.failed.includes(stage)) {
+      this.report.stages.failed.push(stage);
+    }
+  }
+  markStageBlocked(stage: PipelineStage): void {
+    if (!this.report.stages.blocked.includes(stage)) {
+      this.report.stages.blocked.push(stage);
+    }
+  }
+  // Disabled stages are reported like unselected ones
+  markStageSkipped(stage: PipelineStage): void {
+    if (!this.report.stages.skipped.includes(stage)) {
+      this.report.stages.skipped.push(stage);
+    }
+  }
+
+  // Report sections of registered stages
+  initSection(
+    stage: PipelineStage,
+    defaults: Record<string, number | string> = {}
+  ): void {
+    this.report.sections[stage] = {
+      ...defaults,
+      ...(this.report.sections[stage] || {}),
+    };
+  }
+  incrementSection(stage: PipelineStage, key: string, by: number = 1): void {
+    const section = (this.report.sections[stage] ||= {});
+    section[key] = (Number(section[key]) || 0) + by;
+  }
+  setSection(stage: PipelineStage, key: string, value: number | string): void {
+    const section = (this.report.sections[stage] ||= {});
+    section[key] = value;
+  }
+
+  // Time budget deferrals
+  addDeferred(work: DeferredWork): void {
+    this.report.deferred.push(work);
+  }
+
+  // Run lock
+  setLock(lock: Partial<RunReport["lock"]>): void {
+    this.report.lock = { ...this.report.lock, ...lock };
+  }
+
+  // YouTube API keys
+  recordYouTubeCall(keyId: string, units: number): void {
+    const key = this.youtubeKey(keyId);
+    key.calls++;
+    key.units += units;
+  }
+  markYouTubeKeyExhausted(keyId: string): void {
+    this.youtubeKey(keyId).exhausted_at = new Date().toISOString();
+  }
+  incrementYouTubeKeyRotations(): void {
+    this.report.youtube_quota.rotations++;
+  }
+
+  private youtubeKey(
+    keyId: string
+  ): RunReport["youtube_quota"]["keys"][string] {
+    return (this.report.youtube_quota.keys[keyId] ||= {
+      calls: 0,
+      units: 0,
+      exhausted_at: "",
+    });
+  }
+
+  // Transcript provider spend
+  recordTranscriptSpend(provider: string, units: number, cost: number): void {
+    const spend = this.transcriptSpend(provider);
+    spend.calls++;
+    spend.units += units;
+    spend.cost = Math.round((spend.cost + cost) * 1e6) / 1e6;
+  }
+  markTranscriptBudgetExhausted(provider: string): void {
+    const spend = this.transcriptSpend(provider);
+    spend.budget_exhausted_at ||= new Date().toISOString();
+  }
+
+  private transcriptSpend(
+    provider: string
+  ): RunReport["transcript_spend"]["providers"][string] {
+    return (this.report.transcript_spend.providers[provider] ||= {
+      calls: 0,
+      units: 0,
+      cost: 0,
+      budget_exhausted_at: "",
+    });
+  }
+
   // Channels
   setTotalChannels(count: number): void {
     this.report.channels.total = count;
@@ -240,6 +430,8 @@ class ReportingService {
 
   /**
    * Finalize the report and determine status
+   * A given status is downgraded when channels or videos failed, so per-item
+   * errors make the run partial (or failed when nothing was processed).
    */
   finalize(status?: "success" | "partial" | "failed"): void {
     this.report.finished_at = new Date().toISOString();
@@ -252,13 +444,14 @@ class ReportingService {
 
     // Auto-determine status if not provided
     if (status) {
-      this.report.status = status;
+      this.report.status = this.applyErrorCounts(status);
     } else {
+      const merged = this.getReport();
       const hasErrors =
-        this.report.system.errors.length > 0 ||
-        this.report.channels.errors > 0 ||
-        this.report.videos.errors > 0;
-      const hasProcessed = this.report.videos.processed > 0;
+        merged.system.errors.length > 0 ||
+        merged.channels.errors > 0 ||
+        merged.videos.errors > 0;
+      const hasProcessed = merged.videos.processed > 0;
 
       if (!hasProcessed && hasErrors) {
         this.report.status = "failed";
@@ -271,21 +464,121 @@ class ReportingService {
   }
 
   /**
-   * Get the current report
+   * Downgrade a status by the channel and video error counts
+   */
+  private applyErrorCounts(
+    status: "success" | "partial" | "failed"
+  ): "success" | "partial" | "failed" {
+    if (status === "failed") return status;
+
+    const { channels, videos } = this.getReport();
+    if (channels.errors + videos.errors === 0) return status;
+    return channels.processed + videos.processed > 0 ? "partial" : "failed";
+  }
+
+  /**
+   * Get the current report (merged with earlier segments when resumed)
    */
   getReport(): RunReport {
-    return { ...this.report };
+    if (!this.previousSegments) {
+      return { ...this.report };
+    }
+    return this.mergeReports(this.previousSegments, this.report);
+  }
+
+  /**
+   * Merge a resumed segment into the counters of earlier segments
+   * Counters are summed; metadata and the stage plan come from the current segment
+   */
+  private mergeReports(previous: RunReport, segment: RunReport): RunReport {
+    const merged = this.mergeCounters(previous, segment) as RunReport;
+
+    merged.run_id = segment.run_id;
+    merged.started_at = previous.started_at || segment.started_at;
+    merged.finished_at = segment.finished_at;
+    merged.duration_ms = segment.duration_ms;
+    merged.status = segment.status;
+    merged.version = segment.version;
+    merged.segments = segment.segments;
+
+    merged.stages = {
+      requested: [...segment.stages.requested],
+      skipped: [...segment.stages.skipped],
+      dry_run: [...segment.stages.dry_run],
+      executed: Array.from(
+        new Set([
+          ...(previous.stages?.executed || []),
+          ...segment.stages.executed,
+        ])
+      ),
+      failed: [...segment.stages.failed],
+      blocked: [...segment.stages.blocked],
+    };
+
+    merged.lock = { ...segment.lock };
+    // Only work deferred by the latest segment is still outstanding
+    merged.deferred = [...segment.deferred];
+
+    // Every segment sees all active channels, so the total is not additive
+    merged.channels.total = Math.max(
+      previous.channels?.total || 0,
+      segment.channels.total
+    );
+    merged.transcripts.avg_length_chars =
+      merged.transcripts.fetched > 0
+        ? Math.round(merged.transcripts.total_chars / merged.transcripts.fetched)
+        : 0;
+    merged.system.memory_used_mb = segment.system.memory_used_mb;
+    merged.system.errors = [
+      ...(previous.system?.errors || []),
+      ...segment.system.errors,
+    ].slice(0, 10);
+
+    return merged;
+  }
+
+  private mergeCounters(previous: any, segment: any): any {
+    if (typeof segment === "number") {
+      return (typeof previous === "number" ? previous : 0) + segment;
+    }
+    if (Array.isArray(segment)) {
+      return [...(Array.isArray(previous) ? previous : []), ...segment];
+    }
+    if (segment && typeof segment === "object") {
+      const result: any = {};
+      const keys = new Set([
+        ...Object.keys(previous || {}),
+        ...Object.keys(segment),
+      ]);
+      keys.forEach((key) => {
+        result[key] =
+          key in segment
+            ? this.mergeCounters(previous?.[key], segment[key])
+            : previous[key];
+      });
+      return result;
+    }
+    // Strings (e.g. last used source): keep the latest non-empty value
+    return segment !== "" && segment !== undefined ? segment : previous;
   }
 
   /**
    * Save report to database
    */
   private hasPersisted = false;
+  private saves: Promise<void> = Promise.resolve();
 
   /**
    * Save report to database (Insert or Update)
    */
   async save(): Promise<void> {
+    // Chained so concurrent callers write in order and the last write carries
+    // the latest counters
+    this.saves = this.saves.then(() => this.write());
+    return this.saves;
+  }
+
+  private async write(): Promise<void> {
     try {
       if (!this.report.run_id) {
         logger.warn("Cannot save report: run_id is missing");
@@ -296,6 +589,7 @@ class ReportingService {
       this.report.duration_ms =
         new Date().getTime() - new Date(this.report.started_at).getTime();
 
+      const report = this.getReport();
       let error: any;
 
       if (!this.hasPersisted) {
@@ -306,9 +600,9 @@ class ReportingService {
             run_id: this.report.run_id,
             started_at: this.report.started_at || new Date().toISOString(),
             finished_at: this.report.finished_at || null,
-            duration_ms: this.report.duration_ms,
-            status: this.report.status,
-            report: this.report,
+            duration_ms: report.duration_ms,
+            status: report.status,
+            report,
           });
         error = result.error;
 
@@ -321,10 +615,10 @@ class ReportingService {
         const result = await supabaseService.supabase
           .from("run_reports")
           .update({
-            finished_at: this.report.finished_at || null,
-            duration_ms: this.report.duration_ms,
-            status: this.report.status,
-            report: this.report,
+            finished_at: report.finished_at || null,
+            duration_ms: report.duration_ms,
+            status: report.status,
+            report,
           })
           .eq("run_id", this.report.run_id);
         error = result.error;
@@ -348,7 +642,7 @@ class ReportingService {
    * Print beautiful CLI output
    */
   printCLI(): void {
-    const r = this.report;
+    const r = this.getReport();
     const duration = (r.duration_ms / 1000).toFixed(1);
     const statusIcon =
       r.status === "success" ? "✅" : r.status === "partial" ? "⚠️" : "❌";
@@ -362,8 +656,71 @@ class ReportingService {
     console.log(`║${"📊 RUN REPORT".padStart(38).padEnd(64)}║`);
     console.log(`╠${line}╣`);
     console.log(`║ Run ID:   ${r.run_id.padEnd(52)}║`);
+    if (r.segments > 1) {
+      console.log(`║ Segments: ${String(r.segments).padEnd(52)}║`);
+    }
     console.log(`║ Duration: ${(duration + "s").padEnd(52)}║`);
     console.log(`║ Status:   ${(statusIcon + " " + statusText).padEnd(52)}║`);
+    console.log(
+      `║ Stages:   ${(
+        r.stages.executed.length + "/" + r.stages.requested.length + " executed"
+      ).padEnd(52)}║`
+    );
+    if (r.stages.skipped.length > 0) {
+      console.log(
+        `║ Skipped:  ${r.stages.skipped.join(",").padEnd(52).substring(0, 52)}║`
+      );
+    }
+    if (r.stages.dry_run.length > 0) {
+      console.log(
+        `║ Dry run:  ${r.stages.dry_run.join(",").padEnd(52).substring(0, 52)}║`
+      );
+    }
+    if (r.stages.failed?.length > 0) {
+      console.log(
+        `║ Failed:   ${r.stages.failed.join(",").padEnd(52).substring(0, 52)}║`
+      );
+    }
+    if (r.stages.blocked?.length > 0) {
+      console.log(
+        `║ Blocked:  ${r.stages.blocked.join(",").padEnd(52).substring(0, 52)}║`
+      );
+    }
+    if (r.deferred?.length > 0) {
+      console.log(
+        `║ Deferred: ${r.deferred
+          .map((d) => d.stage)
+          .join(",")
+          .padEnd(52)
+          .substring(0, 52)}║`
+      );
+    }
+    const youtubeKeys = Object.values(r.youtube_quota?.keys || {});
+    if (youtubeKeys.length > 0) {
+      const units = youtubeKeys.reduce((sum, key) => sum + key.units, 0);
+      const exhausted = youtubeKeys.filter((key) => key.exhausted_at).length;
+      console.log(
+        `║ YouTube:  ${`${units} units, ${youtubeKeys.length} key(s), ${exhausted} exhausted, ${r.youtube_quota.rotations} rotation(s)`
+          .padEnd(52)
+          .substring(0, 52)}║`
+      );
+    }
+    const spend = Object.values(r.transcript_spend?.providers || {});
+    if (spend.length > 0) {
+      const units = spend.reduce((sum, provider) => sum + provider.units, 0);
+      const cost = spend.reduce((sum, provider) => sum + provider.cost, 0);
+      const exhausted = spend.filter((p) => p.budget_exhausted_at).length;
+      console.log(
+        `║ Spend:    ${`${units} unit(s), ${cost.toFixed(2)} ${r.transcript_spend.currency}, ${exhausted} budget(s) exhausted`
+          .padEnd(52)
+          .substring(0, 52)}║`
+      );
+    }
+    if (r.lock?.holder) {
+      console.log(
+        `║ Lock:     ${r.lock.holder.padEnd(52).substring(0, 52)}║`
+      );
+    }
     console.log(`╠${line}╣`);
 
     // Row 1: Channels | Videos | Transcripts
@@ -447,6 +804,22 @@ class ReportingService {
         11
       )}│ NonFin: ${String(r.news.non_financial).padEnd(12)}│${"".padEnd(18)} ║`
     );
+
+    // Sections of registered (plugin) stages
+    const sections = Object.entries(r.sections || {});
+    if (sections.length > 0) {
+      console.log(`╠${line}╣`);
+      for (const [stage, section] of sections) {
+        const values = Object.entries(section)
+          .map(([key, value]) => `${key}=${value}`)
+          .join(" ");
+        console.log(
+          `║ ${stage.toUpperCase().padEnd(14).substring(0, 14)}│ ${values
+            .padEnd(46)
+            .substring(0, 46)}║`
+        );
+      }
+    }
     console.log(`╚${line}╝`);
     console.log("");
   }
@@ -0,0 +1,240 @@
+import os from "os";
+import { config } from "../config";
+import { RunLockError } from "../errors";
+import { RunLockLease } from "../types";
+import { logger } from "../utils";
+import { supabaseService } from "../supabase";
+import { reportingService } from "./reportingService";
+
+const LOCK_TABLE = "run_locks";
+const LOCK_NAME = "finfluencer-tracker";
+
+/**
+ * Run Lock Service
+ * Lease-based lock in Supabase so only one FinfluencerTracker runs at a time.
+ * The holder renews the lease with a heartbeat; a lease whose expiry has passed
+ * is considered stale and can be taken over by the next run.
+ */
+class RunLockService {
+  private readonly holder = `${os.hostname()}:${process.pid}`;
+  private lease: RunLockLease | null = null;
+  private takenOverFrom: string | null = null;
+  private onLost: ((reason: string) => void) | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Acquire the run lock or throw RunLockError if another run holds a live lease
+   * `onLost` is called when a heartbeat finds the lease taken over
+   */
+  async acquire(
+    runId: string,
+    onLost?: (reason: string) => void
+  ): Promise<void> {
+    if (!config.runLock.enabled) {
+      logger.info("🔓 Run lock disabled (RUN_LOCK_ENABLED=false)");
+      return;
+    }
+    this.onLost = onLost || null;
+
+    const now = new Date();
+    const lease: RunLockLease = {
+      name: LOCK_NAME,
+      holder: this.holder,
+      run_id: runId,
+      acquired_at: now.toISOString(),
+      heartbeat_at: now.toISOString(),
+      expires_at: this.nextExpiry(now),
+    };
+
+    // 1. Fast path: nobody holds the lock yet
+    const { error: insertError } = await supabaseService.supabase
+      .from(LOCK_TABLE)
+      .insert(lease);
+
+    if (!insertError) {
+      this.onAcquired(lease, null);
+      return;
+    }
+
+    // 23505 = unique violation, anything else is a real database problem
+    if (insertError.code !== "23505") {
+      throw new RunLockError(
+        `Failed to acquire run lock: ${insertError.message}`
+      );
+    }
+
+    // 2. Someone holds (or held) the lock: check whether the lease is stale
+    const { data: current, error: selectError } = await supabaseService.supabase
+      .from(LOCK_TABLE)
+      .select("*")
+      .eq("name", LOCK_NAME)
+      .single();
+
+    if (selectError || !current) {
+      throw new RunLockError(
+        `Failed to read run lock: ${selectError?.message || "not found"}`
+      );
+    }
+
+    const isStale = new Date(current.expires_at).getTime() <= now.getTime();
+    const isOwn = current.holder === this.holder;
+
+    if (!isStale && !isOwn) {
+      throw new RunLockError(
+        `Another run holds the lock (${current.holder}, run ${current.run_id}) until ${current.expires_at}`,
+        { holder: current.holder, expiresAt: current.expires_at }
+      );
+    }
+
+    // 3. Take over: compare-and-swap on the previous expiry so only one
+    // contender wins when several find the same stale lease
+    const { data: updated, error: updateError } = await supabaseService.supabase
+      .from(LOCK_TABLE)
+      .update(lease)
+      .eq("name", LOCK_NAME)
+      .eq("holder", current.holder)
+      .eq("expires_at", current.expires_at)
+      .select();
+
+    if (updateError) {
+      throw new RunLockError(
+        `Failed to take over run lock: ${updateError.message}`
+      );
+    }
+    if (!updated || updated.length === 0) {
+      throw new RunLockError(
+        "Run lock was taken over by another run while acquiring it",
+        { holder: current.holder, expiresAt: current.expires_at }
+      );
+    }
+
+    if (!isOwn) {
+      logger.warn(`⚠️ Took over stale run lock from ${current.holder}`, {
+        previousRunId: current.run_id,
+        expiredAt: current.expires_at,
+      });
+    }
+    this.onAcquired(lease, isOwn ? null : current.holder);
+  }
+
+  /**
+   * Release the lock (only if this process still holds it)
+   */
+  async release(): Promise<void> {
+    this.stopHeartbeat();
+    this.onLost = null;
+    if (!this.lease) return;
+
+    const runId = this.lease.run_id;
+    this.lease = null;
+
+    try {
+      const { error } = await supabaseService.supabase
+        .from(LOCK_TABLE)
+        .delete()
+        .eq("name", LOCK_NAME)
+        .eq("holder", this.holder);
+
+      if (error) {
+        logger.warn("Failed to release run lock", { error: error.message });
+        return;
+      }
+      logger.info("🔓 Run lock released", { holder: this.holder, runId });
+    } catch (err: any) {
+      logger.warn("Error releasing run lock", { error: err.message });
+    }
+  }
+
+  getLease(): RunLockLease | null {
+    return this.lease ? { ...this.lease } : null;
+  }
+
+  /**
+   * Copy the held lease into the run report (the lock is acquired before the
+   * report is initialized)
+   */
+  recordInReport(): void {
+    if (!this.lease) return;
+    reportingService.setLock({
+      holder: this.lease.holder,
+      acquired_at: this.lease.acquired_at,
+      expires_at: this.lease.expires_at,
+      taken_over_from: this.takenOverFrom,
+    });
+  }
+
+  private onAcquired(lease: RunLockLease, takenOverFrom: string | null): void {
+    this.lease = lease;
+    this.takenOverFrom = takenOverFrom;
+    logger.info("🔒 Run lock acquired", {
+      holder: lease.holder,
+      runId: lease.run_id,
+      expiresAt: lease.expires_at,
+    });
+    this.startHeartbeat();
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(
+      () => this.heartbeat(),
+      config.runLock.heartbeatMs
+    );
+    // Never keep the process alive just for the heartbeat
+    this.heartbeatTimer.unref();
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * Extend the lease; if the row no longer belongs to us the lock was lost
+   */
+  private async heartbeat(): Promise<void> {
+    if (!this.lease) return;
+
+    const now = new Date();
+    const expiresAt = this.nextExpiry(now);
+
+    try {
+      const { data, error } = await supabaseService.supabase
+        .from(LOCK_TABLE)
+        .update({ heartbeat_at: now.toISOString(), expires_at: expiresAt })
+        .eq("name", LOCK_NAME)
+        .eq("holder", this.holder)
+        .select();
+
+      if (error) {
+        logger.warn("Run lock heartbeat failed", { error: error.message });
+        return;
+      }
+      if (!data || data.length === 0) {
+        logger.error("❌ Run lock lost: lease was taken over by another run", {
+          holder: this.holder,
+          runId: this.lease.run_id,
+        });
+        this.stopHeartbeat();
+        this.lease = null;
+        this.onLost?.("Run lock lost: lease was taken over by another run");
+        return;
+      }
+
+      this.lease.heartbeat_at = now.toISOString();
+      this.lease.expires_at = expiresAt;
+      reportingService.setLock({ expires_at: expiresAt });
+      logger.debug("🔒 Run lock renewed", { expiresAt });
+    } catch (err: any) {
+      logger.warn("Error renewing run lock", { error: err.message });
+    }
+  }
+
+  private nextExpiry(from: Date): string {
+    return new Date(from.getTime() + config.runLock.ttlMs).toISOString();
+  }
+}
+
+export const runLockService = new RunLockService();
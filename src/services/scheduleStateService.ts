@@ -0,0 +1,80 @@
+import { PipelineStage } from "../types";
+import { logger } from "../utils";
+import { supabaseService } from "../supabase";
+
+const SCHEDULE_TABLE = "daemon_schedule_state";
+
+interface ScheduleStateRow {
+  stage: PipelineStage;
+  last_fired_at: string;
+  updated_at: string;
+}
+
+/**
+ * Schedule State Service
+ * Remembers when the daemon scheduler last handled each stage's fire
+ * (daemon_schedule_state), so fires missed while no daemon was running are
+ * detected on the next start. Failures are logged; the scheduler then only
+ * sees fires missed while it was running.
+ */
+class ScheduleStateService {
+  /**
+   * Last handled fire per stage (empty when none are stored or the read failed)
+   */
+  async load(): Promise<Map<PipelineStage, Date>> {
+    const fires = new Map<PipelineStage, Date>();
+
+    try {
+      const { data, error } = await supabaseService.supabase
+        .from(SCHEDULE_TABLE)
+        .select("stage, last_fired_at");
+
+      if (error) {
+        logger.warn("Failed to load daemon schedule state", {
+          error: error.message,
+        });
+        return fires;
+      }
+
+      for (const row of (data || []) as ScheduleStateRow[]) {
+        const firedAt = new Date(row.last_fired_at);
+        if (!isNaN(firedAt.getTime())) fires.set(row.stage, firedAt);
+      }
+    } catch (err: any) {
+      logger.warn("Error loading daemon schedule state", {
+        error: err.message,
+      });
+    }
+    return fires;
+  }
+
+  /**
+   * Record that every fire of a stage up to `firedAt` has been handled
+   * (run, queued or skipped)
+   */
+  async recordFire(stage: PipelineStage, firedAt: Date): Promise<void> {
+    const row: ScheduleStateRow = {
+      stage,
+      last_fired_at: firedAt.toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+
+    try {
+      const { error } = await supabaseService.supabase
+        .from(SCHEDULE_TABLE)
+        .upsert(row, { onConflict: "stage" });
+
+      if (error) {
+        logger.warn(`Failed to save schedule state of stage "${stage}"`, {
+          error: error.message,
+        });
+      }
+    } catch (err: any) {
+      logger.warn(`Error saving schedule state of stage "${stage}"`, {
+        error: err.message,
+      });
+    }
+  }
+}
+
+export const scheduleStateService = new ScheduleStateService();
@@ -0,0 +1,186 @@
+import path from "path";
+import { ConfigurationError } from "../errors";
+import { PipelineStage } from "../types";
+import { logger } from "../utils";
+
+export type StageReportValue = number | string;
+
+/**
+ * Counters a stage owns in RunReport.sections[stage]
+ */
+export interface StageReportSection {
+  increment(key: string, by?: number): void;
+  set(key: string, value: StageReportValue): void;
+}
+
+/**
+ * Everything a stage gets from the runner
+ */
+export interface StageContext {
+  runId: string;
+  stage: PipelineStage;
+  dryRun: boolean; // No side effects: log what would happen instead
+  report: StageReportSection;
+  priorityIds: string[]; // IDs the previous run deferred for this stage
+  // True once shutdown was requested or the stage's time budget ran out;
+  // check it at safe boundaries (between items or batches)
+  shouldStop(): boolean;
+  // Hand unfinished IDs to the next run (call after shouldStop() stopped you)
+  defer(pendingIds: string[]): void;
+  // Record progress so a resumed run skips the given IDs; moving the cursor
+  // replaces the IDs recorded so far (the stage resumes after the cursor)
+  commit(update: { cursor?: string | null; processedIds?: string[] }): Promise<void>;
+  isProcessed(id: string): boolean;
+}
+
+/**
+ * A pipeline stage
+ * Dependencies only order stages and block them when a dependency failed in
+ * the same run; an unselected dependency does not block its dependents
+ */
+export interface StageDefinition {
+  name: PipelineStage;
+  description?: string;
+  dependsOn?: PipelineStage[];
+  enabled?: boolean | (() => boolean); // Defaults to true
+  report?: Record<string, StageReportValue>; // Initial report section (counters start here)
+  execute(ctx: StageContext): Promise<void>;
+}
+
+const STAGE_NAME_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+/**
+ * Stage Registry
+ * Holds built-in and plugin stages and resolves their execution order
+ */
+class StageRegistry {
+  private stages = new Map<PipelineStage, StageDefinition>();
+
+  register(stage: StageDefinition): void {
+    // Plugin modules are untyped, so the name is checked at runtime as well
+    const name: string = stage?.name;
+    if (!name || !STAGE_NAME_PATTERN.test(name) || name === "all") {
+      throw new ConfigurationError(
+        `Invalid stage name "${stage?.name}": use lowercase letters, digits and underscores`
+      );
+    }
+    if (typeof stage.execute !== "function") {
+      throw new ConfigurationError(`Stage "${stage.name}" has no execute()`);
+    }
+    if (this.stages.has(stage.name)) {
+      throw new ConfigurationError(`Stage "${stage.name}" is already registered`);
+    }
+
+    this.stages.set(stage.name, stage);
+    logger.debug(`🧩 Stage registered: ${stage.name}`, {
+      dependsOn: stage.dependsOn || [],
+    });
+  }
+
+  unregister(name: PipelineStage): void {
+    this.stages.delete(name);
+  }
+
+  get(name: PipelineStage): StageDefinition | undefined {
+    return this.stages.get(name);
+  }
+
+  has(name: PipelineStage): boolean {
+    return this.stages.has(name);
+  }
+
+  isEnabled(name: PipelineStage): boolean {
+    const enabled = this.stages.get(name)?.enabled;
+    if (enabled === undefined) return true;
+    return typeof enabled === "function" ? enabled() : enabled;
+  }
+
+  /**
+   * Stage names in pipeline order
+   */
+  names(): PipelineStage[] {
+    return this.order().map((stage) => stage.name);
+  }
+
+  /**
+   * Stages in execution order: dependencies first, otherwise registration
+   * order, with priority stages pulled forward as far as their dependencies allow
+   */
+  order(priority: PipelineStage[] = []): StageDefinition[] {
+    const registered = Array.from(this.stages.values());
+
+    for (const stage of registered) {
+      for (const dependency of stage.dependsOn || []) {
+        if (!this.stages.has(dependency)) {
+          throw new ConfigurationError(
+            `Stage "${stage.name}" depends on unknown stage "${dependency}"`
+          );
+        }
+      }
+    }
+
+    const ordered: StageDefinition[] = [];
+    const placed = new Set<PipelineStage>();
+    const isReady = (stage: StageDefinition) =>
+      !placed.has(stage.name) &&
+      (stage.dependsOn || []).every((dependency) => placed.has(dependency));
+
+    while (ordered.length < registered.length) {
+      const ready = registered.filter(isReady);
+      if (ready.length === 0) {
+        const cycle = registered
+          .filter((stage) => !placed.has(stage.name))
+          .map((stage) => stage.name);
+        throw new ConfigurationError(
+          `Stage dependency cycle between: ${cycle.join(", ")}`
+        );
+      }
+
+      const next =
+        ready.find((stage) => priority.includes(stage.name)) || ready[0];
+      ordered.push(next);
+      placed.add(next.name);
+    }
+
+    return ordered;
+  }
+
+  /**
+   * Load plugin modules (STAGE_PLUGINS); each exports a stage definition,
+   * an array of them (`default`, `stage` or `stages`) or register(registry)
+   */
+  loadPlugins(value: string): void {
+    const paths = value
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+
+    for (const pluginPath of paths) {
+      let plugin: any;
+      try {
+        plugin = require(path.resolve(process.cwd(), pluginPath));
+      } catch (error) {
+        throw new ConfigurationError(
+          `Failed to load stage plugin ${pluginPath}: ${(error as Error).message}`
+        );
+      }
+
+      if (typeof plugin.register === "function") {
+        plugin.register(this);
+      } else {
+        const exported = plugin.default || plugin.stages || plugin.stage;
+        if (!exported) {
+          throw new ConfigurationError(
+            `Stage plugin ${pluginPath} exports no stage definition`
+          );
+        }
+        const stages = Array.isArray(exported) ? exported : [exported];
+        stages.forEach((stage: StageDefinition) => this.register(stage));
+      }
+
+      logger.info(`🧩 Loaded stage plugin ${pluginPath}`);
+    }
+  }
+}
+
+export const stageRegistry = new StageRegistry();
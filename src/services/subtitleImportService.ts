@@ -0,0 +1,297 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { config } from "../config";
+import { DatabaseError, ValidationError } from "../errors";
+import { getArgValue } from "../stageSelection";
+import { gradeTranscript } from "../transcriptQuality";
+import {
+  TranscriptCaptionKind,
+  TranscriptQuality,
+  TranscriptSegment,
+} from "../types";
+import {
+  detectLanguage,
+  isUsableTranscript,
+  isValidYouTubeVideoId,
+  logger,
+} from "../utils";
+import { transcriptStoreService } from "./transcriptStoreService";
+
+// Provider name recorded in video_transcripts for imported files
+export const IMPORT_PROVIDER = "import";
+
+export type SubtitleFormat = "vtt" | "srt" | "json3";
+
+const CAPTION_KINDS: TranscriptCaptionKind[] = [
+  "native",
+  "generated",
+  "unknown",
+];
+
+export interface SubtitleImportOptions {
+  videoId: string;
+  file: string;
+  format?: SubtitleFormat; // Detected from the extension / content when absent
+  language?: string; // Detected from the text when absent
+  captionKind: TranscriptCaptionKind;
+}
+
+export interface SubtitleImportResult {
+  videoId: string;
+  format: SubtitleFormat;
+  transcript: string;
+  segments: TranscriptSegment[];
+  quality: TranscriptQuality;
+}
+
+/**
+ * Parse the subtitle import command line
+ *   import-subtitles --video=<id> --file=<path> [--format=vtt|srt|json3]
+ *                    [--language=<code>] [--caption-kind=native|generated]
+ */
+export function resolveSubtitleImportOptions(
+  argv: string[]
+): SubtitleImportOptions {
+  const videoId = getArgValue(argv, "video");
+  const file = getArgValue(argv, "file");
+  if (!videoId || !file) {
+    throw new ValidationError(
+      "import-subtitles requires --video=<video id> and --file=<path>"
+    );
+  }
+  if (!isValidYouTubeVideoId(videoId)) {
+    throw new ValidationError(`Invalid --video "${videoId}"`);
+  }
+
+  const format = getArgValue(argv, "format");
+  if (format && !["vtt", "srt", "json3"].includes(format)) {
+    throw new ValidationError(
+      `Invalid --format "${format}" (expected vtt, srt or json3)`
+    );
+  }
+
+  const captionKind = (getArgValue(argv, "caption-kind") ||
+    "unknown") as TranscriptCaptionKind;
+  if (!CAPTION_KINDS.includes(captionKind)) {
+    throw new ValidationError(
+      `Invalid --caption-kind "${captionKind}" (expected native, generated or unknown)`
+    );
+  }
+
+  return {
+    videoId,
+    file,
+    format: format as SubtitleFormat | undefined,
+    language: getArgValue(argv, "language"),
+    captionKind,
+  };
+}
+
+// Format from the file extension, else from the content
+export function detectSubtitleFormat(
+  file: string,
+  content: string
+): SubtitleFormat {
+  const extension = path.extname(file).toLowerCase();
+  if (extension === ".vtt") return "vtt";
+  if (extension === ".srt") return "srt";
+  if (extension === ".json3" || extension === ".json") return "json3";
+
+  const head = content.trimStart();
+  if (head.startsWith("WEBVTT")) return "vtt";
+  if (head.startsWith("{")) return "json3";
+  return "srt";
+}
+
+/**
+ * Timed segments of a WebVTT, SRT or YouTube json3 caption file
+ * Markup is stripped and the repeated lines of YouTube's rolling
+ * auto-captions are dropped, so the joined text reads like a provider's
+ */
+export function parseSubtitles(
+  content: string,
+  format: SubtitleFormat
+): TranscriptSegment[] {
+  const cues =
+    format === "json3" ? parseJson3(content) : parseCueBlocks(content);
+
+  const segments: TranscriptSegment[] = [];
+  let previousLines: string[] = [];
+  for (const cue of cues) {
+    const lines = cue.lines
+      .map(cleanCaptionText)
+      .filter((line) => line.length > 0);
+    const fresh = lines.filter((line) => !previousLines.includes(line));
+    if (lines.length > 0) previousLines = lines;
+    if (fresh.length === 0) continue;
+
+    segments.push({
+      start: cue.start,
+      duration: Math.max(0, cue.end - cue.start),
+      text: fresh.join(" "),
+    });
+  }
+  return segments;
+}
+
+interface Cue {
+  start: number; // Seconds
+  end: number;
+  lines: string[];
+}
+
+// WebVTT and SRT: blank-line separated blocks with a "start --> end" line
+function parseCueBlocks(content: string): Cue[] {
+  const cues: Cue[] = [];
+  const blocks = content.replace(/\r\n?/g, "\n").split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => line.includes("-->"));
+    if (timingIndex === -1) continue; // Header, NOTE, STYLE, REGION blocks
+
+    const [startText, endText] = lines[timingIndex].split("-->");
+    const start = parseTimestamp(startText);
+    const end = parseTimestamp(endText);
+    if (start === null || end === null) continue;
+
+    cues.push({ start, end, lines: lines.slice(timingIndex + 1) });
+  }
+  return cues;
+}
+
+// "01:02:03.456", "02:03.456" or "01:02:03,456"; cue settings are ignored
+function parseTimestamp(value: string | undefined): number | null {
+  const match = (value || "")
+    .trim()
+    .match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?/);
+  if (!match) return null;
+
+  const [, hours, minutes, seconds, fraction] = match;
+  return (
+    parseInt(hours || "0") * 3600 +
+    parseInt(minutes) * 60 +
+    parseInt(seconds) +
+    (fraction ? parseInt(fraction.padEnd(3, "0")) / 1000 : 0)
+  );
+}
+
+// YouTube json3: { events: [{ tStartMs, dDurationMs, segs: [{ utf8 }] }] }
+function parseJson3(content: string): Cue[] {
+  let data: any;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new ValidationError(
+      `Invalid json3 caption file: ${(error as Error).message}`
+    );
+  }
+  if (!Array.isArray(data?.events)) {
+    throw new ValidationError("Invalid json3 caption file: no events");
+  }
+
+  return data.events
+    .filter((event: any) => Array.isArray(event?.segs))
+    .map((event: any) => {
+      const start = (Number(event.tStartMs) || 0) / 1000;
+      return {
+        start,
+        end: start + (Number(event.dDurationMs) || 0) / 1000,
+        lines: [
+          event.segs.map((seg: any) => String(seg?.utf8 || "")).join(""),
+        ],
+      };
+    });
+}
+
+// Caption markup (<c>, <i>, inline <00:00:01.000> timings, {\an8}) and
+// common HTML entities removed, whitespace collapsed
+function cleanCaptionText(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, "")
+    .replace(/\{\\[^}]*\}/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Subtitle Import Service
+ * Turns a caption file downloaded by hand into a stored transcript for a
+ * video that no provider could transcribe. The file has to pass the same
+ * checks as a provider's transcript and is graded like one (a low grade is
+ * only a warning, the file was chosen by hand); once stored, the pipeline
+ * reads it from video_transcripts exactly like a fetched one (provider
+ * "import").
+ */
+class SubtitleImportService {
+  /**
+   * Parse, validate and store a caption file
+   * Throws ValidationError when the file is unreadable or doesn't look like
+   * a usable transcript
+   */
+  async import(options: SubtitleImportOptions): Promise<SubtitleImportResult> {
+    let content: string;
+    try {
+      content = await fs.readFile(options.file, "utf8");
+    } catch (error) {
+      throw new ValidationError(
+        `Cannot read subtitle file ${options.file}: ${(error as Error).message}`
+      );
+    }
+
+    const format =
+      options.format || detectSubtitleFormat(options.file, content);
+    const segments = parseSubtitles(content.replace(/^\uFEFF/, ""), format);
+    const transcript = segments.map((segment) => segment.text).join(" ");
+
+    if (!isUsableTranscript(transcript)) {
+      throw new ValidationError(
+        `${options.file} is not a usable transcript (${segments.length} cue(s), ${transcript.length} characters)`
+      );
+    }
+
+    const detected = detectLanguage(transcript);
+    const quality = gradeTranscript(
+      transcript,
+      { language: options.language },
+      segments
+    );
+    if (quality.grade < config.transcripts.minGrade) {
+      logger.warn(
+        `📉 Imported subtitles for video ${options.videoId} graded ${quality.grade} (${quality.issues.join(", ")})`,
+        { checks: quality.checks }
+      );
+    }
+
+    const stored = await transcriptStoreService.save(
+      options.videoId,
+      transcript,
+      {
+        provider: IMPORT_PROVIDER,
+        language:
+          options.language || (detected === "unknown" ? null : detected),
+        captionKind: options.captionKind,
+        segments,
+        quality,
+      }
+    );
+    if (!stored) {
+      throw new DatabaseError(
+        `Failed to store the imported transcript of ${options.videoId}`
+      );
+    }
+
+    logger.info(
+      `📥 Imported ${format} subtitles for video ${options.videoId}: ${segments.length} segment(s), ${transcript.length} characters`
+    );
+    return { videoId: options.videoId, format, transcript, segments, quality };
+  }
+}
+
+export const subtitleImportService = new SubtitleImportService();
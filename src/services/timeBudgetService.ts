@@ -0,0 +1,220 @@
+import { config } from "../config";
+import { ConfigurationError } from "../errors";
+import { DeferredWork, PipelineStage, RunReport } from "../types";
+import { logger } from "../utils";
+import { supabaseService } from "../supabase";
+import { getPipelineStages } from "../stageSelection";
+import { reportingService } from "./reportingService";
+
+export type BudgetExhaustion = "run_budget" | "stage_budget";
+
+/**
+ * Time Budget Service
+ * Enforces a wall-clock budget for the whole run plus optional per-stage
+ * budgets. Stages poll isExhausted() at safe boundaries (between channels,
+ * records or batches) and record what they leave behind with defer(). The
+ * next run reads those deferrals and processes that work first; deferrals of
+ * stages it doesn't complete are carried forward into its own report.
+ */
+class TimeBudgetService {
+  private runStartedAt = 0;
+  private runBudgetMs = 0;
+  private stageBudgetsMs: Partial<Record<PipelineStage, number>> = {};
+  private stageStartedAt = new Map<PipelineStage, number>();
+  private deferredStages = new Set<PipelineStage>();
+  private previousDeferred: DeferredWork[] = [];
+  private carriedForward = false;
+
+  /**
+   * Start the run clock (budgets in minutes, 0 = unlimited)
+   */
+  start(): void {
+    this.runStartedAt = Date.now();
+    this.runBudgetMs = Math.max(0, config.timeBudget.runMinutes) * 60000;
+    this.stageBudgetsMs = this.parseStageBudgets(config.timeBudget.stageMinutes);
+    this.stageStartedAt.clear();
+    this.deferredStages.clear();
+
+    if (this.runBudgetMs > 0 || Object.keys(this.stageBudgetsMs).length > 0) {
+      logger.info("⏱️ Time budget enabled", {
+        runMinutes: config.timeBudget.runMinutes || "unlimited",
+        stageMinutes: Object.fromEntries(
+          Object.entries(this.stageBudgetsMs).map(([stage, ms]) => [
+            stage,
+            ms / 60000,
+          ])
+        ),
+      });
+    }
+  }
+
+  startStage(stage: PipelineStage): void {
+    this.stageStartedAt.set(stage, Date.now());
+  }
+
+  /**
+   * Which budget (if any) is used up for a stage
+   */
+  isExhausted(stage: PipelineStage): BudgetExhaustion | null {
+    const now = Date.now();
+
+    if (this.runBudgetMs > 0 && now - this.runStartedAt >= this.runBudgetMs) {
+      return "run_budget";
+    }
+
+    const stageBudget = this.stageBudgetsMs[stage];
+    const stageStart = this.stageStartedAt.get(stage);
+    if (stageBudget && stageStart && now - stageStart >= stageBudget) {
+      return "stage_budget";
+    }
+
+    return null;
+  }
+
+  /**
+   * Record remaining work of a stage that stopped because of its budget
+   * pendingIds may be empty when the stage cannot enumerate what is left
+   */
+  defer(
+    stage: PipelineStage,
+    reason: BudgetExhaustion,
+    pendingIds: string[] = []
+  ): void {
+    this.deferredStages.add(stage);
+    reportingService.addDeferred({
+      stage,
+      reason,
+      deferred_at: new Date().toISOString(),
+      pending_ids: pendingIds,
+    });
+
+    logger.warn(
+      `⏱️ Stage "${stage}" deferred (${reason.replace("_", " ")} exhausted)`,
+      { pending: pendingIds.length, elapsedMs: Date.now() - this.runStartedAt }
+    );
+  }
+
+  isDeferred(stage: PipelineStage): boolean {
+    return this.deferredStages.has(stage);
+  }
+
+  /**
+   * Load the outstanding deferrals: those of the most recent earlier finished
+   * run, which carries forward everything it did not complete itself
+   */
+  async loadPreviousDeferred(currentRunId: string): Promise<void> {
+    this.previousDeferred = [];
+    this.carriedForward = false;
+
+    try {
+      const { data, error } = await supabaseService.supabase
+        .from("run_reports")
+        .select("run_id, report")
+        .neq("run_id", currentRunId)
+        .neq("status", "running")
+        .order("started_at", { ascending: false })
+        .limit(1);
+
+      if (error) {
+        logger.warn("Failed to load deferred work from previous run", {
+          error: error.message,
+        });
+        return;
+      }
+
+      const previous = data?.[0]?.report as RunReport | undefined;
+      this.previousDeferred = previous?.deferred || [];
+
+      if (this.previousDeferred.length > 0) {
+        logger.info(
+          `⏱️ Previous run deferred ${this.previousDeferred.length} stage(s), prioritizing them`,
+          {
+            previousRunId: data[0].run_id,
+            stages: this.previousDeferred.map((d) => d.stage),
+          }
+        );
+      }
+    } catch (err: any) {
+      logger.warn("Error loading deferred work", { error: err.message });
+    }
+  }
+
+  /**
+   * Keep earlier deferrals outstanding: every loaded deferral whose stage this
+   * run did not complete (not selected, failed, interrupted, dry run) is added
+   * to this run's report unchanged. Call once before the report is finalized.
+   */
+  carryForward(isCompleted: (stage: PipelineStage) => boolean): void {
+    if (this.carriedForward) return;
+    this.carriedForward = true;
+
+    const carried = this.previousDeferred.filter(
+      (work) => !isCompleted(work.stage) && !this.deferredStages.has(work.stage)
+    );
+    carried.forEach((work) => reportingService.addDeferred(work));
+
+    if (carried.length > 0) {
+      logger.info(
+        `⏱️ Carrying ${carried.length} earlier deferral(s) forward to the next run`,
+        { stages: Array.from(new Set(carried.map((work) => work.stage))) }
+      );
+    }
+  }
+
+  /**
+   * Stages the previous run deferred (pipeline order)
+   */
+  getPriorityStages(): PipelineStage[] {
+    const stages = new Set(this.previousDeferred.map((d) => d.stage));
+    return getPipelineStages().filter((stage) => stages.has(stage));
+  }
+
+  /**
+   * IDs the previous run left pending for a stage
+   */
+  getPriorityIds(stage: PipelineStage): string[] {
+    return Array.from(
+      new Set(
+        this.previousDeferred
+          .filter((d) => d.stage === stage)
+          .flatMap((d) => d.pending_ids || [])
+      )
+    );
+  }
+
+  // Parse "retries=30,analysis=45" (minutes per stage)
+  private parseStageBudgets(
+    value: string
+  ): Partial<Record<PipelineStage, number>> {
+    const budgets: Partial<Record<PipelineStage, number>> = {};
+    if (!value || !value.trim()) return budgets;
+
+    for (const entry of value.split(",")) {
+      const [rawStage, rawMinutes] = entry.split("=").map((s) => s.trim());
+      if (!rawStage) continue;
+
+      const stage = rawStage.toLowerCase() as PipelineStage;
+      const minutes = parseFloat(rawMinutes);
+
+      const validStages = getPipelineStages();
+      if (!validStages.includes(stage)) {
+        throw new ConfigurationError(
+          `Unknown stage in STAGE_TIME_BUDGETS: ${rawStage}. Valid stages: ${validStages.join(
+            ", "
+          )}`
+        );
+      }
+      if (isNaN(minutes) || minutes <= 0) {
+        throw new ConfigurationError(
+          `Invalid budget for stage ${stage} in STAGE_TIME_BUDGETS: ${rawMinutes}`
+        );
+      }
+
+      budgets[stage] = minutes * 60000;
+    }
+
+    return budgets;
+  }
+}
+
+export const timeBudgetService = new TimeBudgetService();
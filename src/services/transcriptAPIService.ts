@@ -13,6 +13,7 @@
 
 import { config } from "../config";
 import { TranscriptError } from "../errors";
+import { TranscriptPayload } from "../types";
 import {
   logger,
   retryWithBackoff,
@@ -22,12 +23,19 @@ import {
   sleep,
 } from "../utils";
 import axios, { AxiosError } from "axios";
+import { transcriptSpendService } from "./transcriptSpendService";
 
 // Response types
+interface TranscriptAPISegment {
+  text: string;
+  start: number; // Seconds
+  duration: number;
+}
+
 interface TranscriptAPIResponse {
   video_id: string;
   language: string;
-  transcript: string; // Plain text when format=text
+  transcript: string | TranscriptAPISegment[]; // Timed segments when format=json
   metadata?: {
     title: string;
     author_name: string;
@@ -46,7 +54,6 @@ export class TranscriptAPIService {
   private readonly baseUrl = "https://transcriptapi.com/api/v2";
   private readonly rateLimiter: EnhancedRateLimiter;
   private readonly circuitBreaker: CircuitBreaker;
-  private creditsUsed = 0;
   private creditsRemaining: number | null = null;
   private lastCreditCheck: Date | null = null;
 
@@ -107,6 +114,13 @@ export class TranscriptAPIService {
    * @returns Plain text transcript without timestamps
    */
   async getVideoTranscript(videoId: string): Promise<string> {
+    return (await this.getVideoTranscriptDetails(videoId)).transcript;
+  }
+
+  /**
+   * Transcript plus the language TranscriptAPI reports for it
+   */
+  async getVideoTranscriptDetails(videoId: string): Promise<TranscriptPayload> {
     if (!this.isConfigured()) {
       throw new TranscriptError("TranscriptAPI is not configured");
     }
@@ -151,7 +165,9 @@ export class TranscriptAPIService {
    * Internal method to fetch transcript from API
    * Separated for use with retryWithBackoff
    */
-  private async fetchTranscriptFromAPI(videoId: string): Promise<string> {
+  private async fetchTranscriptFromAPI(
+    videoId: string
+  ): Promise<TranscriptPayload> {
     const apiKey = process.env.TRANSCRIPTAPI_COM_API_KEY!;
     const url = `${this.baseUrl}/youtube/transcript`;
     const startTime = Date.now();
@@ -165,8 +181,8 @@ export class TranscriptAPIService {
       const response = await axios.get<TranscriptAPIResponse>(url, {
         params: {
           video_url: videoId,
-          format: "text",
-          include_timestamp: false,
+          format: "json",
+          include_timestamp: true,
           send_metadata: false,
         },
         headers: {
@@ -179,11 +195,23 @@ export class TranscriptAPIService {
       const responseTime = Date.now() - startTime;
 
       // Track credit usage from response headers
-      this.updateCreditInfo(response.headers);
+      const credits = this.updateCreditInfo(response.headers);
 
       const data = response.data;
-
-      if (!data.transcript || data.transcript.trim().length === 0) {
+      const segments = Array.isArray(data.transcript)
+        ? data.transcript
+            .filter((segment) => segment?.text && segment.text.trim().length > 0)
+            .map((segment) => ({
+              start: Number(segment.start) || 0,
+              duration: Number(segment.duration) || 0,
+              text: segment.text.trim(),
+            }))
+        : null;
+      const transcript = segments
+        ? segments.map((segment) => segment.text).join(" ")
+        : (data.transcript as string);
+
+      if (!transcript || transcript.trim().length === 0) {
         throw new TranscriptError(
           `Empty transcript returned for video ${videoId}`
         );
@@ -194,12 +222,18 @@ export class TranscriptAPIService {
 
       logger.info(`TranscriptAPI transcript fetched for video ${videoId}`, {
         language: data.language,
-        length: data.transcript.length,
+        length: transcript.length,
+        segments: segments?.length || 0,
         responseTime,
         creditsRemaining: this.creditsRemaining,
       });
 
-      return data.transcript;
+      return {
+        transcript,
+        language: data.language || null,
+        segments: segments && segments.length > 0 ? segments : null,
+        credits,
+      };
     } catch (error) {
       const responseTime = Date.now() - startTime;
 
@@ -269,40 +303,34 @@ export class TranscriptAPIService {
 
   /**
    * Update credit information from response headers
+   * Returns the credits the request was charged (undefined when not reported)
    */
-  private updateCreditInfo(headers: any): void {
+  private updateCreditInfo(headers: any): number | undefined {
     const creditsUsed = headers["x-credits-used"];
     const creditsRemaining = headers["x-credits-remaining"];
 
-    if (creditsUsed) {
-      this.creditsUsed += parseInt(creditsUsed, 10);
-    }
-
     if (creditsRemaining) {
       this.creditsRemaining = parseInt(creditsRemaining, 10);
       this.lastCreditCheck = new Date();
     }
+
+    const charged = parseInt(creditsUsed, 10);
+    return isNaN(charged) ? undefined : charged;
   }
 
   /**
    * Get credit usage statistics
+   * Credits used this month come from the spend ledger, the remaining balance
+   * from the last response headers
    */
   getCreditStats(): any {
     return {
-      creditsUsed: this.creditsUsed,
+      creditsUsed: transcriptSpendService.getUsage("transcriptapi").units,
       creditsRemaining: this.creditsRemaining,
       lastCheck: this.lastCreditCheck?.toISOString() || null,
     };
   }
 
-  /**
-   * Reset credit usage (for testing or manual reset)
-   */
-  resetCredits(): void {
-    this.creditsUsed = 0;
-    logger.info("TranscriptAPI credit usage reset");
-  }
-
   /**
    * Get current rate limiting statistics
    */
@@ -322,7 +350,6 @@ export class TranscriptAPIService {
    */
   resetMetrics(): void {
     // CircuitBreaker doesn't have a reset method, it resets automatically after timeout
-    this.creditsUsed = 0;
     logger.info("TranscriptAPI metrics reset");
   }
 }
@@ -0,0 +1,487 @@
+import { config } from "../config";
+import { ConfigurationError } from "../errors";
+import { rapidapiService } from "../rapidapi";
+import { supadataService } from "../supadataService";
+import { supadataRapidAPIService } from "../supadataRapidAPIService";
+import {
+  gradeTranscript,
+  TranscriptExpectations,
+} from "../transcriptQuality";
+import {
+  TranscriptCaptionKind,
+  TranscriptPayload,
+  TranscriptQuality,
+  TranscriptSegment,
+} from "../types";
+import { detectLanguage, logger, TranscriptMetrics } from "../utils";
+import { reportingService } from "./reportingService";
+import { transcriptAPIService } from "./transcriptAPIService";
+import {
+  TranscriptProviderScore,
+  transcriptProviderScoreService,
+} from "./transcriptProviderScoreService";
+import {
+  TranscriptProviderSpend,
+  transcriptSpendService,
+} from "./transcriptSpendService";
+
+/**
+ * What a provider charges per transcript
+ * Request-billed providers pay for every call, credit-billed ones only for
+ * delivered transcripts
+ */
+export interface TranscriptProviderCost {
+  unit: "request" | "credit";
+  perTranscript: number; // Typical charge for one transcript (used when the provider doesn't report it)
+  maxPerCall?: number; // Most one call can charge (defaults to perTranscript), checked against the budget
+  note?: string;
+}
+
+/**
+ * Current state of a provider (circuit breaker, credits)
+ */
+export interface TranscriptProviderHealth {
+  available: boolean; // False while the provider would refuse requests
+  reason?: string; // Why it's unavailable
+  stats?: any; // Provider-specific rate limit / credit statistics
+}
+
+/**
+ * A transcript source tried by the provider chain
+ */
+export interface TranscriptProvider {
+  name: string; // Used in TRANSCRIPT_PROVIDERS and finfluencer_channels.transcript_providers
+  label: string; // Used in logs
+  cost: TranscriptProviderCost;
+  isConfigured(): boolean;
+  // Plain-text transcript (with provenance and timed segments when the
+  // provider reports them), null/empty when the video has none
+  fetch(
+    videoId: string,
+    language?: string
+  ): Promise<string | TranscriptPayload | null>;
+  getHealth(): TranscriptProviderHealth;
+  testConnection?(): Promise<boolean>;
+}
+
+export interface TranscriptFetchResult {
+  transcript: string | null;
+  provider?: string; // Provider that returned the transcript
+  language?: string | null;
+  captionKind?: TranscriptCaptionKind;
+  segments?: TranscriptSegment[] | null; // Null when the provider had no timings
+  quality?: TranscriptQuality | null; // Null for stored transcripts never graded
+  stored?: boolean; // Read from the transcript store, no provider was called
+  error?: string;
+}
+
+const PROVIDER_NAME_PATTERN = /^[a-z][a-zA-Z0-9_]*$/;
+
+// Built-in adapters over the existing transcript services
+const BUILT_IN_PROVIDERS: TranscriptProvider[] = [
+  {
+    name: "rapidapi",
+    label: "RapidAPI",
+    cost: { unit: "request", perTranscript: 1 },
+    isConfigured: () => rapidapiService.isConfigured(),
+    fetch: (videoId) => rapidapiService.getVideoTranscriptDetails(videoId),
+    getHealth: () => {
+      const stats = rapidapiService.getRateLimitStats();
+      return stats.circuitBreaker.isOpen
+        ? { available: false, reason: "circuit breaker open", stats }
+        : { available: true, stats };
+    },
+    testConnection: () => rapidapiService.testConnection(),
+  },
+  {
+    name: "supadata",
+    label: "Supadata Direct",
+    cost: {
+      unit: "credit",
+      perTranscript: 1,
+      maxPerCall: 2,
+      note: "2 credits when the transcript has to be generated",
+    },
+    isConfigured: () => !!supadataService.isConfigured(),
+    fetch: (videoId) => supadataService.getVideoTranscriptDetails(videoId),
+    getHealth: () => {
+      const stats = supadataService.getCreditStats();
+      return stats.circuitBreaker.isOpen
+        ? { available: false, reason: "circuit breaker open", stats }
+        : { available: true, stats };
+    },
+    testConnection: () => supadataService.testConnection(),
+  },
+  {
+    name: "supadataRapidAPI",
+    label: "Supadata RapidAPI",
+    cost: { unit: "request", perTranscript: 1 },
+    isConfigured: () => supadataRapidAPIService.isConfigured(),
+    fetch: (videoId) => supadataRapidAPIService.getVideoTranscript(videoId),
+    getHealth: () => ({
+      available: true,
+      stats: supadataRapidAPIService.getRateLimitStats(),
+    }),
+    testConnection: () => supadataRapidAPIService.testConnection(),
+  },
+  {
+    name: "transcriptapi",
+    label: "TranscriptAPI.com",
+    cost: { unit: "credit", perTranscript: 1 },
+    isConfigured: () => transcriptAPIService.isConfigured(),
+    fetch: (videoId) =>
+      transcriptAPIService.getVideoTranscriptDetails(videoId),
+    getHealth: () => {
+      const stats = transcriptAPIService.getRateLimitStats();
+      if (stats.circuitBreakerState === "open") {
+        return { available: false, reason: "circuit breaker open", stats };
+      }
+      // Remaining credits come from response headers, null until the first call
+      if (stats.credits.creditsRemaining === 0) {
+        return { available: false, reason: "credits exhausted", stats };
+      }
+      return { available: true, stats };
+    },
+    testConnection: () => transcriptAPIService.testConnection(),
+  },
+];
+
+/**
+ * Transcript Provider Registry
+ * Holds the transcript providers and fetches transcripts through them in
+ * TRANSCRIPT_PROVIDERS order (or a channel's own order), falling back to the
+ * next provider until one returns a transcript that grades at least
+ * TRANSCRIPT_MIN_GRADE. Every call is charged to the provider's spend
+ * ledger; providers over their monthly budget are skipped.
+ * With TRANSCRIPT_ADAPTIVE_ORDER the configured chain is reordered by each
+ * provider's observed success, latency, 429s and cost.
+ */
+class TranscriptProviderRegistry {
+  private providers = new Map<string, TranscriptProvider>();
+
+  constructor() {
+    BUILT_IN_PROVIDERS.forEach((provider) => this.register(provider));
+  }
+
+  register(provider: TranscriptProvider): void {
+    if (!provider?.name || !PROVIDER_NAME_PATTERN.test(provider.name)) {
+      throw new ConfigurationError(
+        `Invalid transcript provider name "${provider?.name}"`
+      );
+    }
+    if (typeof provider.fetch !== "function") {
+      throw new ConfigurationError(
+        `Transcript provider "${provider.name}" has no fetch()`
+      );
+    }
+    if (this.providers.has(provider.name)) {
+      throw new ConfigurationError(
+        `Transcript provider "${provider.name}" is already registered`
+      );
+    }
+
+    this.providers.set(provider.name, provider);
+    logger.debug(`🧩 Transcript provider registered: ${provider.name}`);
+  }
+
+  unregister(name: string): void {
+    this.providers.delete(name);
+  }
+
+  get(name: string): TranscriptProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  /**
+   * Throw a ConfigurationError when a provider order names unknown providers
+   */
+  validateOrder(names: string[], source: string): void {
+    const unknown = names.filter((name) => !this.providers.has(name));
+    if (unknown.length > 0) {
+      throw new ConfigurationError(
+        `Unknown transcript provider(s) in ${source}: ${unknown.join(
+          ", "
+        )}. Valid providers: ${this.names().join(", ")}`
+      );
+    }
+  }
+
+  /**
+   * Providers in the order they are tried
+   * A channel's own order (finfluencer_channels.transcript_providers)
+   * replaces TRANSCRIPT_PROVIDERS and is kept as given; the configured chain
+   * is ordered by provider score when TRANSCRIPT_ADAPTIVE_ORDER is on.
+   * Unknown names are ignored
+   */
+  getChain(override?: string[] | null): TranscriptProvider[] {
+    const overridden = !!override && override.length > 0;
+    const names = overridden ? override : config.transcripts.providers;
+
+    const chain = names
+      .map((name) => {
+        const provider = this.providers.get(name);
+        if (!provider) {
+          logger.warn(`⚠️ Unknown transcript provider "${name}", skipping`);
+        }
+        return provider;
+      })
+      .filter((provider): provider is TranscriptProvider => !!provider);
+
+    return !overridden && config.transcripts.adaptiveOrder
+      ? transcriptProviderScoreService.order(chain)
+      : chain;
+  }
+
+  /**
+   * Try each provider of the chain until one returns a good enough transcript
+   * Unconfigured, unavailable and over-budget providers are skipped; failures
+   * and transcripts graded below TRANSCRIPT_MIN_GRADE (against `expected`)
+   * fall through to the next provider. When no provider does better, the
+   * best-graded low-quality transcript is returned.
+   */
+  async fetchTranscript(
+    videoId: string,
+    options: {
+      language?: string;
+      providers?: string[] | null;
+      expected?: TranscriptExpectations;
+    } = {}
+  ): Promise<TranscriptFetchResult> {
+    await transcriptProviderScoreService.load();
+    const chain = this.getChain(options.providers);
+    let lowGraded: TranscriptFetchResult | null = null;
+
+    for (const [index, provider] of chain.entries()) {
+      const tier = `TIER ${index + 1}`;
+
+      if (!provider.isConfigured()) {
+        logger.debug(
+          `⏭️ [${tier} SKIPPED] ${provider.label} not configured for video ${videoId}`
+        );
+        continue;
+      }
+
+      const health = provider.getHealth();
+      if (!health.available) {
+        logger.warn(
+          `⏭️ [${tier} SKIPPED] ${provider.label} unavailable (${health.reason}) for video ${videoId}`
+        );
+        continue;
+      }
+
+      if (
+        !(await transcriptSpendService.canSpend(
+          provider.name,
+          provider.cost.maxPerCall ?? provider.cost.perTranscript
+        ))
+      ) {
+        const usage = transcriptSpendService.getUsage(provider.name);
+        reportingService.markTranscriptBudgetExhausted(provider.name);
+        logger.warn(
+          `⏭️ [${tier} SKIPPED] ${provider.label} monthly budget exhausted (${usage.units}/${usage.budget} ${provider.cost.unit}s in ${usage.month}) for video ${videoId}`
+        );
+        continue;
+      }
+
+      logger.info(
+        `🎯 [${tier}] Fetching transcript from ${provider.label} for video ${videoId}`
+      );
+      const startTime = Date.now();
+
+      try {
+        const fetched = await provider.fetch(videoId, options.language);
+        const payload: TranscriptPayload | null =
+          typeof fetched === "string" ? { transcript: fetched } : fetched;
+        const transcript = payload?.transcript;
+        const duration = Date.now() - startTime;
+        const delivered = !!transcript && transcript.trim().length > 0;
+        this.charge(provider, delivered, payload?.credits);
+
+        if (delivered) {
+          const segments =
+            payload.segments && payload.segments.length > 0
+              ? payload.segments
+              : null;
+          const quality = gradeTranscript(
+            transcript,
+            options.expected,
+            segments
+          );
+          const result: TranscriptFetchResult = {
+            transcript,
+            provider: provider.name,
+            language:
+              payload.language ||
+              this.guessLanguage(transcript, options.language),
+            captionKind: payload.captionKind || "unknown",
+            segments,
+            quality,
+          };
+          const accepted = quality.grade >= config.transcripts.minGrade;
+          transcriptProviderScoreService.record(provider.name, {
+            success: accepted,
+            durationMs: duration,
+          });
+
+          if (accepted) {
+            TranscriptMetrics.recordAttempt(
+              videoId,
+              provider.name,
+              true,
+              duration
+            );
+            logger.info(
+              `✅ [${tier} SUCCESS] ${provider.label} transcript for video ${videoId} (${transcript.length} characters, grade ${quality.grade}, ${duration}ms)`
+            );
+            return result;
+          }
+
+          TranscriptMetrics.recordAttempt(
+            videoId,
+            provider.name,
+            false,
+            duration,
+            `low quality transcript (grade ${quality.grade})`
+          );
+          logger.warn(
+            `📉 [${tier} LOW QUALITY] ${provider.label} transcript for video ${videoId} graded ${quality.grade} (${quality.issues.join(", ")}), trying the next provider`,
+            { checks: quality.checks }
+          );
+          if (!lowGraded || quality.grade > lowGraded.quality.grade) {
+            lowGraded = result;
+          }
+          continue;
+        }
+
+        transcriptProviderScoreService.record(provider.name, {
+          success: false,
+          durationMs: duration,
+        });
+
+        TranscriptMetrics.recordAttempt(
+          videoId,
+          provider.name,
+          false,
+          duration,
+          "empty transcript"
+        );
+        logger.warn(
+          `❌ [${tier} EMPTY] ${provider.label} returned no transcript for video ${videoId}`
+        );
+      } catch (error) {
+        const message = (error as Error).message || String(error);
+        const duration = Date.now() - startTime;
+        const rateLimited = /429|rate limit/i.test(message);
+        this.charge(provider, false);
+        TranscriptMetrics.recordAttempt(
+          videoId,
+          provider.name,
+          false,
+          duration,
+          message
+        );
+        transcriptProviderScoreService.record(provider.name, {
+          success: false,
+          durationMs: duration,
+          rateLimited,
+        });
+
+        if (/insufficient|credit|Payment Required/i.test(message)) {
+          logger.error(
+            `💳 [${tier} CREDITS EXHAUSTED] ${provider.label} credits exhausted for video ${videoId}`,
+            { error: message, service: provider.name }
+          );
+        } else {
+          const errorType = rateLimited ? "RATE_LIMITED" : "FAILED";
+          logger.warn(
+            `❌ [${tier} ${errorType}] ${provider.label} transcript failed for video ${videoId}`,
+            { error: message, service: provider.name }
+          );
+        }
+      }
+    }
+
+    if (lowGraded) {
+      logger.warn(
+        `⚠️ [LOW QUALITY ONLY] No better transcript for video ${videoId}, using ${lowGraded.provider}'s (grade ${lowGraded.quality.grade})`
+      );
+      return lowGraded;
+    }
+
+    logger.error(
+      `💥 [ALL TIERS FAILED] No transcript available for video ${videoId} from any service`
+    );
+    return { transcript: null, error: "no_transcript_available" };
+  }
+
+  // Book a call on the provider's spend ledger and the run report
+  private charge(
+    provider: TranscriptProvider,
+    delivered: boolean,
+    reported?: number
+  ): void {
+    const units =
+      reported !== undefined && reported !== null
+        ? reported
+        : delivered || provider.cost.unit === "request"
+        ? provider.cost.perTranscript
+        : 0;
+    const cost = transcriptSpendService.record(provider.name, units);
+    reportingService.recordTranscriptSpend(provider.name, units, cost);
+  }
+
+  // Language the video was requested in, else a guess from the text
+  private guessLanguage(
+    transcript: string,
+    requested?: string
+  ): string | null {
+    if (requested) return requested;
+    const detected = detectLanguage(transcript);
+    return detected === "unknown" ? null : detected;
+  }
+
+  /**
+   * Configuration, health, cost, this month's spend and the current score of
+   * every registered provider, in configured chain order first
+   */
+  getStatus(): Array<{
+    name: string;
+    label: string;
+    configured: boolean;
+    inChain: boolean;
+    cost: TranscriptProviderCost;
+    health: TranscriptProviderHealth;
+    spend: TranscriptProviderSpend;
+    score: TranscriptProviderScore;
+  }> {
+    const chain = config.transcripts.providers;
+    const names = [
+      ...chain.filter((name) => this.providers.has(name)),
+      ...this.names().filter((name) => !chain.includes(name)),
+    ];
+
+    const scores = transcriptProviderScoreService.getScores(
+      names.map((name) => this.providers.get(name)!)
+    );
+
+    return names.map((name) => {
+      const provider = this.providers.get(name)!;
+      return {
+        name,
+        label: provider.label,
+        configured: provider.isConfigured(),
+        inChain: chain.includes(name),
+        cost: provider.cost,
+        health: provider.getHealth(),
+        spend: transcriptSpendService.getUsage(name),
+        score: scores.get(name),
+      };
+    });
+  }
+}
+
+export const transcriptProviderRegistry = new TranscriptProviderRegistry();
@@ -0,0 +1,336 @@
+import { config } from "../config";
+import { logger } from "../utils";
+import { supabaseService } from "../supabase";
+import type { TranscriptProvider } from "./transcriptProviderRegistry";
+
+const SCORES_TABLE = "transcript_provider_scores";
+
+// Latency at which the latency component drops to 0.5
+const LATENCY_TARGET_MS = 10000;
+// 429s older than this no longer count against a provider
+const RATE_LIMIT_WINDOW_MS = 15 * 60 * 1000;
+// Attempts are written at most this often; flush() writes the rest
+const FLUSH_INTERVAL_MS = 30 * 1000;
+
+// Share of the total score per component
+const WEIGHTS = {
+  success: 0.5,
+  latency: 0.2,
+  rateLimits: 0.2,
+  cost: 0.1,
+};
+
+interface ScoreSample {
+  at: number; // Epoch ms
+  success: boolean;
+  duration_ms: number;
+  rate_limited: boolean;
+}
+
+export interface TranscriptProviderScore {
+  provider: string;
+  samples: number;
+  success_rate: number; // Smoothed, 0.5 without samples
+  p95_ms: number | null;
+  recent_429s: number;
+  cost_per_transcript: number | null; // Currency, null when not priced
+  score: number; // 0-1, higher is tried first
+}
+
+// What the recent attempts say about a provider, independent of cost
+type ObservedStats = Pick<
+  TranscriptProviderScore,
+  "success_rate" | "p95_ms" | "recent_429s"
+>;
+
+interface ScoreRow extends ObservedStats {
+  provider: string;
+  samples: ScoreSample[];
+  updated_at: string;
+}
+
+/**
+ * Transcript Provider Score Service
+ * Scores providers on their last TRANSCRIPT_SCORE_WINDOW attempts (smoothed
+ * success rate, p95 latency, recent 429s) and their cost per transcript, and
+ * orders the fallback chain by that score. A small exploration share of
+ * fetches tries a lower-ranked provider first so its score can recover.
+ * The recent attempts persist in transcript_provider_scores between runs,
+ * written in batches (at most every FLUSH_INTERVAL_MS, and by flush() at the
+ * end of a run). Each write appends the new attempts to the stored row, so
+ * attempts recorded by other processes are kept.
+ */
+class TranscriptProviderScoreService {
+  private samples = new Map<string, ScoreSample[]>();
+  private loading: Promise<void> | null = null;
+  // Attempts not written yet: provider -> samples
+  private pending = new Map<string, ScoreSample[]>();
+  private writes: Promise<void> = Promise.resolve();
+  private flushedAt = Date.now();
+
+  /**
+   * Load the persisted attempts (once per process; failures start empty)
+   */
+  load(): Promise<void> {
+    this.loading ||= this.read();
+    return this.loading;
+  }
+
+  /**
+   * Record the outcome of one provider call (persisted with the next batch)
+   */
+  record(
+    provider: string,
+    outcome: { success: boolean; durationMs: number; rateLimited?: boolean }
+  ): void {
+    const sample: ScoreSample = {
+      at: Date.now(),
+      success: outcome.success,
+      duration_ms: outcome.durationMs,
+      rate_limited: !!outcome.rateLimited,
+    };
+    const samples = this.samples.get(provider) || [];
+    samples.push(sample);
+    this.samples.set(provider, samples.slice(-config.transcripts.scoreWindow));
+
+    this.pending.set(provider, [...(this.pending.get(provider) || []), sample]);
+    if (Date.now() - this.flushedAt >= FLUSH_INTERVAL_MS) {
+      this.flush().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Providers ordered by score (configured order breaks ties); with
+   * probability TRANSCRIPT_EXPLORATION_RATE a random lower-ranked configured
+   * provider is moved to the front
+   */
+  order(providers: TranscriptProvider[]): TranscriptProvider[] {
+    if (providers.length < 2) return providers;
+
+    const scores = this.getScores(providers);
+    const ranked = providers
+      .map((provider, index) => ({ provider, index }))
+      .sort(
+        (a, b) =>
+          scores.get(b.provider.name).score -
+            scores.get(a.provider.name).score || a.index - b.index
+      )
+      .map(({ provider }) => provider);
+
+    const candidates = ranked
+      .slice(1)
+      .filter((provider) => provider.isConfigured());
+    if (
+      candidates.length > 0 &&
+      Math.random() < config.transcripts.explorationRate
+    ) {
+      const probe = candidates[Math.floor(Math.random() * candidates.length)];
+      logger.debug(`🎲 Probing transcript provider ${probe.name} first`);
+      return [probe, ...ranked.filter((provider) => provider !== probe)];
+    }
+
+    return ranked;
+  }
+
+  /**
+   * Current score of each provider; cost is scored relative to the cheapest
+   * of the given providers, and only when every one of them is priced
+   * (credits and requests of different providers don't compare)
+   */
+  getScores(
+    providers: TranscriptProvider[]
+  ): Map<string, TranscriptProviderScore> {
+    const costs = providers.map((provider) => this.costPerTranscript(provider));
+    const comparable = costs.every((cost) => cost !== null);
+    const cheapest = comparable ? Math.min(...costs) : 0;
+
+    return new Map(
+      providers.map((provider, index) => {
+        const samples = this.samples.get(provider.name) || [];
+        const observed = this.observe(samples);
+        const cost = costs[index];
+
+        const score =
+          WEIGHTS.success * observed.success_rate +
+          WEIGHTS.latency *
+            (observed.p95_ms === null
+              ? 0.5
+              : LATENCY_TARGET_MS / (LATENCY_TARGET_MS + observed.p95_ms)) +
+          WEIGHTS.rateLimits / (1 + observed.recent_429s) +
+          WEIGHTS.cost * (comparable && cost > 0 ? cheapest / cost : 1);
+
+        return [
+          provider.name,
+          {
+            provider: provider.name,
+            samples: samples.length,
+            ...observed,
+            cost_per_transcript: cost,
+            score: this.round(score),
+          },
+        ];
+      })
+    );
+  }
+
+  // Smoothed success rate (0.5 without samples), p95 latency and 429s of the
+  // last RATE_LIMIT_WINDOW_MS
+  private observe(samples: ScoreSample[]): ObservedStats {
+    const successes = samples.filter((sample) => sample.success).length;
+    const now = Date.now();
+    return {
+      success_rate: this.round((successes + 1) / (samples.length + 2)),
+      p95_ms: this.percentile(
+        samples.map((sample) => sample.duration_ms),
+        0.95
+      ),
+      recent_429s: samples.filter(
+        (sample) =>
+          sample.rate_limited && now - sample.at < RATE_LIMIT_WINDOW_MS
+      ).length,
+    };
+  }
+
+  /**
+   * Persist pending scores (call before the process exits)
+   */
+  flush(): Promise<void> {
+    this.flushedAt = Date.now();
+    // Writes are chained so an older snapshot never lands last
+    this.writes = this.writes.then(() => this.write(this.takePending()));
+    return this.writes;
+  }
+
+  private async read(): Promise<void> {
+    try {
+      const { data, error } = await supabaseService.supabase
+        .from(SCORES_TABLE)
+        .select("provider, samples");
+
+      if (error) {
+        logger.warn("Failed to load transcript provider scores", {
+          error: error.message,
+        });
+        return;
+      }
+
+      for (const row of (data || []) as ScoreRow[]) {
+        // Attempts recorded before the load finished come after the stored ones
+        const stored = Array.isArray(row.samples) ? row.samples : [];
+        const recorded = this.samples.get(row.provider) || [];
+        this.samples.set(
+          row.provider,
+          [...stored, ...recorded].slice(-config.transcripts.scoreWindow)
+        );
+      }
+    } catch (err: any) {
+      logger.warn("Error loading transcript provider scores", {
+        error: err.message,
+      });
+    }
+  }
+
+  // Attempts recorded since the last write, per provider
+  private takePending(): Map<string, ScoreSample[]> {
+    const pending = this.pending;
+    this.pending = new Map();
+    return pending;
+  }
+
+  // Append the new attempts to the stored rows (re-read so attempts written
+  // by other processes in the meantime are kept) and trim to the window
+  private async write(pending: Map<string, ScoreSample[]>): Promise<void> {
+    if (pending.size === 0) return;
+    const providers = Array.from(pending.keys());
+
+    try {
+      const { data, error: readError } = await supabaseService.supabase
+        .from(SCORES_TABLE)
+        .select("provider, samples")
+        .in("provider", providers);
+
+      if (readError) {
+        this.requeue(pending);
+        logger.warn("Failed to load transcript provider scores", {
+          error: readError.message,
+        });
+        return;
+      }
+
+      const stored = new Map<string, ScoreSample[]>();
+      for (const row of (data || []) as ScoreRow[]) {
+        stored.set(row.provider, Array.isArray(row.samples) ? row.samples : []);
+      }
+
+      const now = new Date().toISOString();
+      const rows: ScoreRow[] = providers.map((provider) => {
+        const samples = [
+          ...(stored.get(provider) || []),
+          ...pending.get(provider),
+        ]
+          .sort((a, b) => a.at - b.at)
+          .slice(-config.transcripts.scoreWindow);
+        return { provider, samples, ...this.observe(samples), updated_at: now };
+      });
+
+      const { error } = await supabaseService.supabase
+        .from(SCORES_TABLE)
+        .upsert(rows, { onConflict: "provider" });
+
+      if (error) {
+        this.requeue(pending);
+        logger.warn("Failed to save transcript provider scores", {
+          error: error.message,
+        });
+        return;
+      }
+
+      // Score on the merged attempts from now on
+      for (const row of rows) {
+        this.samples.set(
+          row.provider,
+          [...row.samples, ...(this.pending.get(row.provider) || [])].slice(
+            -config.transcripts.scoreWindow
+          )
+        );
+      }
+    } catch (err: any) {
+      this.requeue(pending);
+      logger.warn("Error saving transcript provider scores", {
+        error: err.message,
+      });
+    }
+  }
+
+  // Keep attempts whose write failed for the next flush
+  private requeue(pending: Map<string, ScoreSample[]>): void {
+    pending.forEach((samples, provider) => {
+      this.pending.set(
+        provider,
+        [...samples, ...(this.pending.get(provider) || [])].slice(
+          -config.transcripts.scoreWindow
+        )
+      );
+    });
+  }
+
+  // Charge of one transcript in currency (null when the provider isn't priced)
+  private costPerTranscript(provider: TranscriptProvider): number | null {
+    const price = config.transcripts.unitPrices[provider.name];
+    if (price === undefined) return null;
+    return (provider.cost?.perTranscript ?? 1) * price;
+  }
+
+  private percentile(values: number[], share: number): number | null {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.min(sorted.length - 1, Math.ceil(share * sorted.length) - 1)];
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
+
+export const transcriptProviderScoreService =
+  new TranscriptProviderScoreService();
@@ -0,0 +1,246 @@
+import { config } from "../config";
+import { logger, processSource } from "../utils";
+import { supabaseService } from "../supabase";
+
+const SPEND_TABLE = "transcript_provider_spend";
+// Counters are written at most this often; flush() writes the rest
+const FLUSH_INTERVAL_MS = 30 * 1000;
+
+export interface TranscriptProviderSpend {
+  month: string; // Billing month (YYYY-MM, UTC)
+  provider: string;
+  calls: number;
+  units: number; // Credits or requests, in the provider's own unit
+  cost: number; // units × TRANSCRIPT_UNIT_PRICES, in currency
+  currency: string;
+  budget: number | null; // Monthly budget in units (null = unlimited)
+  remaining: number | null;
+}
+
+interface SpendCounters {
+  calls: number;
+  units: number;
+  cost: number;
+}
+
+interface SpendRow {
+  spend_month: string;
+  provider: string;
+  source: string;
+  calls: number;
+  units: number;
+  cost: number;
+  currency: string;
+  updated_at: string;
+}
+
+/**
+ * Transcript Spend Service
+ * Persistent per-provider spend ledger in transcript_provider_spend: calls,
+ * credits/requests and their currency cost per billing month and process.
+ * Each process writes only its own rows; monthly totals are summed over all
+ * sources and checked against TRANSCRIPT_MONTHLY_BUDGETS. Calls are counted
+ * in memory and written in batches (at most every FLUSH_INTERVAL_MS, and by
+ * flush() at the end of a run).
+ */
+class TranscriptSpendService {
+  private readonly source = processSource;
+  private month = "";
+  // This process: provider -> counters
+  private local = new Map<string, SpendCounters>();
+  // Other processes this month: provider -> counters
+  private external = new Map<string, SpendCounters>();
+  private refreshedAt = new Map<string, number>();
+  private dirty = new Set<string>();
+  private writes: Promise<void> = Promise.resolve();
+  private flushedAt = Date.now();
+
+  /**
+   * Record one provider call and what it charged (persisted with the next
+   * batch). Returns the call's cost in currency.
+   */
+  record(provider: string, units: number): number {
+    this.rollOver();
+    const counters = this.local.get(provider) || {
+      calls: 0,
+      units: 0,
+      cost: 0,
+    };
+    const cost = this.round(units * (config.transcripts.unitPrices[provider] || 0));
+
+    counters.calls++;
+    counters.units += units;
+    counters.cost = this.round(counters.cost + cost);
+    this.local.set(provider, counters);
+
+    this.dirty.add(provider);
+    if (Date.now() - this.flushedAt >= FLUSH_INTERVAL_MS) {
+      this.flush().catch(() => undefined);
+    }
+    return cost;
+  }
+
+  /**
+   * Whether a provider's monthly budget still has room for a call charging
+   * up to `units`. Providers without a budget are never refused
+   */
+  async canSpend(provider: string, units: number = 1): Promise<boolean> {
+    if (this.getBudget(provider) === null) return true;
+
+    await this.refreshIfStale(provider);
+    const usage = this.getUsage(provider);
+    return usage.remaining >= units;
+  }
+
+  /**
+   * This month's spend of a provider (all processes, as of the last refresh)
+   */
+  getUsage(provider: string): TranscriptProviderSpend {
+    this.rollOver();
+    const local = this.local.get(provider);
+    const external = this.external.get(provider);
+    const budget = this.getBudget(provider);
+    const units = (local?.units || 0) + (external?.units || 0);
+
+    return {
+      month: this.month,
+      provider,
+      calls: (local?.calls || 0) + (external?.calls || 0),
+      units,
+      cost: this.round((local?.cost || 0) + (external?.cost || 0)),
+      currency: config.transcripts.currency,
+      budget,
+      remaining: budget === null ? null : Math.max(0, budget - units),
+    };
+  }
+
+  getBudget(provider: string): number | null {
+    const budget = config.transcripts.budgets[provider];
+    return budget === undefined ? null : budget;
+  }
+
+  /**
+   * Load what other processes spent this month with a provider
+   */
+  async refresh(provider: string): Promise<void> {
+    this.rollOver();
+
+    try {
+      const { data, error } = await supabaseService.supabase
+        .from(SPEND_TABLE)
+        .select("source, calls, units, cost")
+        .eq("spend_month", this.month)
+        .eq("provider", provider);
+
+      if (error) {
+        logger.warn("Failed to load transcript provider spend", {
+          error: error.message,
+        });
+        return;
+      }
+
+      const external: SpendCounters = { calls: 0, units: 0, cost: 0 };
+      for (const row of (data || []) as SpendRow[]) {
+        if (row.source === this.source) continue;
+        external.calls += row.calls || 0;
+        external.units += Number(row.units) || 0;
+        external.cost = this.round(external.cost + (Number(row.cost) || 0));
+      }
+      this.external.set(provider, external);
+    } catch (err: any) {
+      logger.warn("Error loading transcript provider spend", {
+        error: err.message,
+      });
+    } finally {
+      this.refreshedAt.set(provider, Date.now());
+    }
+  }
+
+  /**
+   * Persist pending counters (call before the process exits)
+   */
+  flush(): Promise<void> {
+    this.flushedAt = Date.now();
+    // Writes are chained so an older snapshot never lands last
+    this.writes = this.writes.then(() => this.write(this.takePendingRows()));
+    return this.writes;
+  }
+
+  // Rows for counters changed since the last write
+  private takePendingRows(): SpendRow[] {
+    const now = new Date().toISOString();
+    const rows: SpendRow[] = Array.from(this.dirty).map((provider) => {
+      const counters = this.local.get(provider) || {
+        calls: 0,
+        units: 0,
+        cost: 0,
+      };
+      return {
+        spend_month: this.month,
+        provider,
+        source: this.source,
+        calls: counters.calls,
+        units: counters.units,
+        cost: counters.cost,
+        currency: config.transcripts.currency,
+        updated_at: now,
+      };
+    });
+    this.dirty.clear();
+    return rows;
+  }
+
+  private async write(rows: SpendRow[]): Promise<void> {
+    if (rows.length === 0) return;
+
+    try {
+      const { error } = await supabaseService.supabase
+        .from(SPEND_TABLE)
+        .upsert(rows, { onConflict: "spend_month,provider,source" });
+
+      if (error) {
+        logger.warn("Failed to save transcript provider spend", {
+          error: error.message,
+        });
+      }
+    } catch (err: any) {
+      logger.warn("Error saving transcript provider spend", {
+        error: err.message,
+      });
+    }
+  }
+
+  private async refreshIfStale(provider: string): Promise<void> {
+    const refreshedAt = this.refreshedAt.get(provider) || 0;
+    if (
+      Date.now() - refreshedAt >=
+      config.transcripts.spendRefreshSeconds * 1000
+    ) {
+      await this.refresh(provider);
+    }
+  }
+
+  // Start from zero when the UTC calendar month changes
+  private rollOver(): void {
+    const month = new Date().toISOString().substring(0, 7);
+    if (month === this.month) return;
+
+    if (this.month) {
+      // Persist what is still pending for the previous month first
+      const pending = this.takePendingRows();
+      this.writes = this.writes.then(() => this.write(pending));
+      logger.info(`🔄 Transcript spend month rolled over to ${month}`);
+    }
+    this.month = month;
+    this.local.clear();
+    this.external.clear();
+    this.refreshedAt.clear();
+    this.dirty.clear();
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 1e6) / 1e6;
+  }
+}
+
+export const transcriptSpendService = new TranscriptSpendService();
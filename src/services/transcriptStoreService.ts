@@ -0,0 +1,131 @@
+import crypto from "crypto";
+import {
+  StoredTranscript,
+  TranscriptCaptionKind,
+  TranscriptQuality,
+  TranscriptSegment,
+} from "../types";
+import { logger } from "../utils";
+import { supabaseService } from "../supabase";
+
+const TRANSCRIPTS_TABLE = "video_transcripts";
+
+/**
+ * Transcript Store Service
+ * One transcript per video with its provenance (provider, language, caption
+ * kind, fetch time, size, content hash, quality grade) and timed segments
+ * when the provider returned them. Read before asking a provider so a video
+ * is only paid for once; failures are logged and treated as a miss.
+ */
+class TranscriptStoreService {
+  /**
+   * Stored transcript of a video (null if none or the read failed)
+   */
+  async get(videoId: string): Promise<StoredTranscript | null> {
+    try {
+      const { data, error } = await supabaseService.supabase
+        .from(TRANSCRIPTS_TABLE)
+        .select("*")
+        .eq("video_id", videoId)
+        .maybeSingle();
+
+      if (error) {
+        logger.warn(`Failed to read stored transcript of ${videoId}`, {
+          error: error.message,
+        });
+        return null;
+      }
+      return data as StoredTranscript | null;
+    } catch (err: any) {
+      logger.warn(`Error reading stored transcript of ${videoId}`, {
+        error: err.message,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Store (or replace) a video's transcript
+   * Returns false when the write failed
+   */
+  async save(
+    videoId: string,
+    transcript: string,
+    provenance: {
+      provider: string;
+      language?: string | null;
+      captionKind?: TranscriptCaptionKind;
+      segments?: TranscriptSegment[] | null;
+      quality?: TranscriptQuality | null;
+      refetchedAt?: string | null;
+    }
+  ): Promise<boolean> {
+    const record: StoredTranscript = {
+      video_id: videoId,
+      transcript,
+      provider: provenance.provider,
+      language: provenance.language || null,
+      caption_kind: provenance.captionKind || "unknown",
+      fetched_at: new Date().toISOString(),
+      char_count: transcript.length,
+      content_hash: this.hash(transcript),
+      segments:
+        provenance.segments && provenance.segments.length > 0
+          ? provenance.segments
+          : null,
+      quality_grade: provenance.quality ? provenance.quality.grade : null,
+      quality: provenance.quality || null,
+      refetched_at: provenance.refetchedAt || null,
+    };
+
+    try {
+      const { error } = await supabaseService.supabase
+        .from(TRANSCRIPTS_TABLE)
+        .upsert(record, { onConflict: "video_id" });
+
+      if (error) {
+        logger.warn(`Failed to store transcript of ${videoId}`, {
+          error: error.message,
+        });
+        return false;
+      }
+      logger.debug(
+        `💾 Stored ${record.char_count}-character transcript of ${videoId} (${record.provider}, ${record.segments?.length || 0} segments, grade ${record.quality_grade ?? "n/a"})`
+      );
+      return true;
+    } catch (err: any) {
+      logger.warn(`Error storing transcript of ${videoId}`, {
+        error: err.message,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Record that a low-grade copy was re-fetched without finding a better one
+   */
+  async markRefetched(videoId: string): Promise<void> {
+    try {
+      const { error } = await supabaseService.supabase
+        .from(TRANSCRIPTS_TABLE)
+        .update({ refetched_at: new Date().toISOString() })
+        .eq("video_id", videoId);
+
+      if (error) {
+        logger.warn(`Failed to mark transcript of ${videoId} as re-fetched`, {
+          error: error.message,
+        });
+      }
+    } catch (err: any) {
+      logger.warn(`Error marking transcript of ${videoId} as re-fetched`, {
+        error: err.message,
+      });
+    }
+  }
+
+  hash(transcript: string): string {
+    return crypto.createHash("sha256").update(transcript).digest("hex");
+  }
+}
+
+export const transcriptStoreService = new TranscriptStoreService();
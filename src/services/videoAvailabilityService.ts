@@ -0,0 +1,331 @@
+import axios from "axios";
+import { config } from "../config";
+import { DatabaseError } from "../errors";
+import {
+  VideoAvailability,
+  VideoAvailabilityChange,
+  VideoAvailabilityStatus,
+} from "../types";
+import { youtubeService } from "../youtube";
+import { logger } from "../utils";
+import { supabaseService } from "../supabase";
+import { eventBus } from "./eventBus";
+import { StageContext } from "./stageRegistry";
+
+const AVAILABILITY_TABLE = "video_availability";
+const EVENTS_TABLE = "video_availability_events";
+const OEMBED_URL = "https://www.youtube.com/oembed";
+const BATCH_SIZE = 50; // videos.list maximum
+const PAGE_SIZE = 1000; // Supabase row limit per select
+
+interface TrackedVideo {
+  video_id: string;
+  channel_id: string;
+  video_title: string;
+}
+
+interface AvailabilityEventRow {
+  video_id: string;
+  channel_id: string;
+  change: VideoAvailabilityChange;
+  previous: string | null;
+  current: string | null;
+  detected_at: string;
+}
+
+// Change recorded when a video moves to a status
+const STATUS_CHANGES: Record<
+  VideoAvailabilityStatus,
+  VideoAvailabilityChange
+> = {
+  available: "restored",
+  unlisted: "unlisted",
+  private: "privated",
+  deleted: "deleted",
+};
+
+/**
+ * Video Availability Service
+ * Periodic sweep over the videos behind finfluencer_predictions: records
+ * deletions, privacy changes and title edits (video_availability_events) and
+ * flags the affected combined_predictions rows without removing them
+ */
+class VideoAvailabilityService {
+  /**
+   * Run the sweep (the availability stage)
+   * Checks videos never checked or last checked more than
+   * AVAILABILITY_RECHECK_DAYS ago, oldest first
+   */
+  async sweep(ctx: StageContext): Promise<void> {
+    const tracked = await this.getTrackedVideos();
+    const known = await this.getKnownStates();
+    const candidates = this.selectCandidates(ctx, tracked, known);
+
+    if (candidates.length === 0) {
+      logger.info("🔦 No videos due for an availability check");
+      return;
+    }
+
+    if (ctx.dryRun) {
+      logger.info(
+        `🧪 [DRY RUN] Would check availability of ${candidates.length} video(s) (${Math.ceil(
+          candidates.length / BATCH_SIZE
+        )} videos.list call(s))`
+      );
+      return;
+    }
+
+    logger.info(
+      `🔦 Checking availability of ${candidates.length}/${tracked.size} tracked video(s)`
+    );
+
+    for (let i = 0; i < candidates.length; i += BATCH_SIZE) {
+      if (ctx.shouldStop()) {
+        ctx.defer(candidates.slice(i));
+        break;
+      }
+
+      const batch = candidates.slice(i, i + BATCH_SIZE);
+      await this.checkBatch(ctx, batch, tracked, known);
+      await ctx.commit({ processedIds: batch });
+    }
+  }
+
+  private async checkBatch(
+    ctx: StageContext,
+    videoIds: string[],
+    tracked: Map<string, TrackedVideo>,
+    known: Map<string, VideoAvailability>
+  ): Promise<void> {
+    const statuses = await youtubeService.getVideoStatuses(videoIds);
+    const now = new Date().toISOString();
+    const states: VideoAvailability[] = [];
+    const events: AvailabilityEventRow[] = [];
+
+    for (const videoId of videoIds) {
+      const video = tracked.get(videoId)!;
+      const found = statuses.get(videoId);
+      const status: VideoAvailabilityStatus | null = found
+        ? found.privacyStatus === "public"
+          ? "available"
+          : found.privacyStatus === "private"
+          ? "private"
+          : "unlisted"
+        : await this.probeMissing(videoId);
+      // Neither listed nor conclusively gone: try again next sweep
+      if (!status) continue;
+
+      // Videos were public when they were analyzed
+      const previous = known.get(videoId);
+      const previousStatus = previous?.status || "available";
+      const previousTitle = previous?.title || video.video_title;
+      // Missing videos keep their last known title
+      const title = found?.title || previousTitle;
+
+      const state: VideoAvailability = {
+        video_id: videoId,
+        channel_id: video.channel_id,
+        status,
+        title,
+        first_checked_at: previous?.first_checked_at || now,
+        last_checked_at: now,
+        status_changed_at: previous?.status_changed_at || null,
+        title_changed_at: previous?.title_changed_at || null,
+      };
+
+      if (status !== previousStatus) {
+        state.status_changed_at = now;
+        events.push({
+          video_id: videoId,
+          channel_id: video.channel_id,
+          change: STATUS_CHANGES[status],
+          previous: previousStatus,
+          current: status,
+          detected_at: now,
+        });
+      }
+      if (found && previousTitle && found.title !== previousTitle) {
+        state.title_changed_at = now;
+        events.push({
+          video_id: videoId,
+          channel_id: video.channel_id,
+          change: "title_changed",
+          previous: previousTitle,
+          current: found.title,
+          detected_at: now,
+        });
+      }
+
+      states.push(state);
+      known.set(videoId, state);
+    }
+
+    ctx.report.increment("checked", states.length);
+    await this.saveStates(states);
+
+    for (const event of events) {
+      const flagged = await this.flagPredictions(event);
+      await this.saveEvent(event);
+
+      ctx.report.increment(event.change);
+      ctx.report.increment("predictions_flagged", flagged);
+      logger.warn(
+        `🔦 Video ${event.video_id} ${event.change}: ${event.previous} → ${event.current} (${flagged} prediction(s) flagged)`
+      );
+      eventBus.emit("video.availability_changed", {
+        videoId: event.video_id,
+        channelId: event.channel_id,
+        change: event.change,
+        previous: event.previous,
+        current: event.current,
+        predictionsFlagged: flagged,
+      });
+    }
+  }
+
+  // videos.list omits deleted and private videos alike; oEmbed (no quota)
+  // answers 401/403 for private and 404 for deleted ones
+  private async probeMissing(
+    videoId: string
+  ): Promise<VideoAvailabilityStatus | null> {
+    try {
+      await axios.get(OEMBED_URL, {
+        params: {
+          format: "json",
+          url: `https://www.youtube.com/watch?v=${videoId}`,
+        },
+        timeout: config.youtubeFeed.timeoutMs,
+      });
+      // Embeddable although videos.list missed it (e.g. still processing)
+      return null;
+    } catch (error: any) {
+      const status = error.response?.status;
+      if (status === 401 || status === 403) return "private";
+      if (status === 404 || status === 400) return "deleted";
+
+      logger.warn(`Availability probe failed for ${videoId}`, {
+        error: error.message,
+      });
+      return null;
+    }
+  }
+
+  // Mark combined_predictions of the video; returns how many rows were flagged
+  private async flagPredictions(event: AvailabilityEventRow): Promise<number> {
+    const update =
+      event.change === "title_changed"
+        ? { source_title_changed_at: event.detected_at }
+        : {
+            source_status: event.current,
+            source_status_changed_at: event.detected_at,
+          };
+
+    const { data, error } = await supabaseService.supabase
+      .from("combined_predictions")
+      .update(update)
+      .eq("video_id", event.video_id)
+      .select("id");
+
+    if (error) {
+      logger.warn(`Failed to flag predictions of video ${event.video_id}`, {
+        error: error.message,
+      });
+      return 0;
+    }
+    return (data || []).length;
+  }
+
+  private async saveStates(states: VideoAvailability[]): Promise<void> {
+    if (states.length === 0) return;
+
+    const { error } = await supabaseService.supabase
+      .from(AVAILABILITY_TABLE)
+      .upsert(states, { onConflict: "video_id" });
+
+    if (error) {
+      logger.warn("Failed to save video availability", {
+        error: error.message,
+      });
+    }
+  }
+
+  private async saveEvent(event: AvailabilityEventRow): Promise<void> {
+    const { error } = await supabaseService.supabase
+      .from(EVENTS_TABLE)
+      .insert(event);
+
+    if (error) {
+      logger.warn(
+        `Failed to record availability event for ${event.video_id}`,
+        { error: error.message }
+      );
+    }
+  }
+
+  // Deleted videos don't come back and are not checked again; priority IDs
+  // (deferred by the previous run) go first
+  private selectCandidates(
+    ctx: StageContext,
+    tracked: Map<string, TrackedVideo>,
+    known: Map<string, VideoAvailability>
+  ): string[] {
+    const cutoff = Date.now() - config.availability.recheckDays * 86400000;
+    const lastChecked = (videoId: string) => {
+      const state = known.get(videoId);
+      return state ? new Date(state.last_checked_at).getTime() : 0;
+    };
+
+    const due = Array.from(tracked.keys())
+      .filter((videoId) => known.get(videoId)?.status !== "deleted")
+      .filter((videoId) => lastChecked(videoId) < cutoff)
+      .filter((videoId) => !ctx.isProcessed(videoId))
+      .sort(
+        (a, b) =>
+          Number(ctx.priorityIds.includes(b)) -
+            Number(ctx.priorityIds.includes(a)) ||
+          lastChecked(a) - lastChecked(b)
+      );
+
+    return due.slice(0, config.availability.maxVideosPerRun);
+  }
+
+  private async getTrackedVideos(): Promise<Map<string, TrackedVideo>> {
+    const rows = await this.selectAll<TrackedVideo>(
+      "finfluencer_predictions",
+      "video_id, channel_id, video_title"
+    );
+    return new Map(rows.map((row) => [row.video_id, row]));
+  }
+
+  private async getKnownStates(): Promise<Map<string, VideoAvailability>> {
+    const rows = await this.selectAll<VideoAvailability>(
+      AVAILABILITY_TABLE,
+      "*"
+    );
+    return new Map(rows.map((row) => [row.video_id, row]));
+  }
+
+  private async selectAll<T>(table: string, columns: string): Promise<T[]> {
+    const rows: T[] = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabaseService.supabase
+        .from(table)
+        .select(columns)
+        .order("video_id", { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new DatabaseError(`Failed to read ${table}: ${error.message}`, {
+          cause: error,
+        });
+      }
+      rows.push(...((data || []) as T[]));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return rows;
+  }
+}
+
+export const videoAvailabilityService = new VideoAvailabilityService();
@@ -0,0 +1,73 @@
+import axios from "axios";
+import * as cheerio from "cheerio";
+import { config } from "../config";
+import { YouTubeError } from "../errors";
+import { logger, RateLimiter } from "../utils";
+
+const FEED_URL = "https://www.youtube.com/feeds/videos.xml";
+// YouTube only lists the most recent uploads in a channel feed
+export const FEED_MAX_ENTRIES = 15;
+
+export interface ChannelFeedEntry {
+  videoId: string;
+  title: string;
+  publishedAt: string;
+}
+
+/**
+ * YouTube Feed Service
+ * Reads a channel's public Atom feed (no Data API quota)
+ */
+class YouTubeFeedService {
+  private rateLimiter = new RateLimiter(config.youtubeFeed.requestsPerSecond);
+
+  /**
+   * Latest uploads of a channel, newest first
+   */
+  async getChannelFeed(channelId: string): Promise<ChannelFeedEntry[]> {
+    await this.rateLimiter.wait();
+
+    let xml: string;
+    try {
+      const response = await axios.get(FEED_URL, {
+        params: { channel_id: channelId },
+        timeout: config.youtubeFeed.timeoutMs,
+        responseType: "text",
+      });
+      xml = response.data;
+    } catch (error: any) {
+      throw new YouTubeError(
+        `Failed to fetch feed for channel ${channelId}: ${error.message}`,
+        { code: error.response?.status, cause: error }
+      );
+    }
+
+    const $ = cheerio.load(xml, { xmlMode: true });
+    if ($("feed").length === 0) {
+      throw new YouTubeError(`Invalid feed for channel ${channelId}`);
+    }
+
+    const entries: ChannelFeedEntry[] = [];
+    $("entry").each((_, element) => {
+      const videoId = $(element).find("yt\\:videoId").first().text().trim();
+      const publishedAt = $(element).find("published").first().text().trim();
+      if (!videoId || !publishedAt || isNaN(Date.parse(publishedAt))) return;
+
+      entries.push({
+        videoId,
+        title: $(element).find("title").first().text().trim(),
+        publishedAt: new Date(publishedAt).toISOString(),
+      });
+    });
+
+    entries.sort(
+      (a, b) =>
+        new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime()
+    );
+
+    logger.debug(`📰 Feed for ${channelId}: ${entries.length} entries`);
+    return entries;
+  }
+}
+
+export const youtubeFeedService = new YouTubeFeedService();
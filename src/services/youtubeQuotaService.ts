@@ -0,0 +1,314 @@
+import crypto from "crypto";
+import { config } from "../config";
+import { logger, processSource } from "../utils";
+import { supabaseService } from "../supabase";
+
+const QUOTA_TABLE = "youtube_quota_usage";
+// YouTube resets the daily quota at midnight Pacific time
+const QUOTA_TIME_ZONE = "America/Los_Angeles";
+// Counters are written at most this often; flush() writes the rest
+const FLUSH_INTERVAL_MS = 30 * 1000;
+
+export type YouTubeQuotaMethod =
+  | "playlistItems"
+  | "videos"
+  | "channels"
+  | "search";
+
+// Units per call (https://developers.google.com/youtube/v3/determine_quota_cost)
+export const YOUTUBE_QUOTA_COSTS: Record<YouTubeQuotaMethod, number> = {
+  playlistItems: 1,
+  videos: 1,
+  channels: 1,
+  search: 100,
+};
+
+// Calls that are refused once the low-priority share of the quota is used
+const LOW_PRIORITY_METHODS: YouTubeQuotaMethod[] = ["search"];
+
+export interface YouTubeQuotaUsage {
+  day: string; // Pacific-time quota day (YYYY-MM-DD)
+  key_id: string;
+  used: number;
+  limit: number;
+  remaining: number;
+  percentage: number;
+  by_method: Record<string, number>;
+}
+
+interface QuotaUsageRow {
+  quota_day: string;
+  key_id: string;
+  method: string;
+  source: string;
+  units: number;
+  calls: number;
+  updated_at: string;
+}
+
+/**
+ * YouTube Quota Service
+ * Persists quota units per API key, method and process in youtube_quota_usage
+ * so every run and script sees what was already spent today. Each process
+ * writes only its own rows; totals are summed over all sources for the day.
+ * Calls are counted in memory and written in batches (at most every
+ * FLUSH_INTERVAL_MS, and by flush() at the end of a run).
+ */
+class YouTubeQuotaService {
+  private readonly source = processSource;
+  private day = "";
+  // This process: key_id -> method -> units / calls
+  private local = new Map<
+    string,
+    Map<YouTubeQuotaMethod, { units: number; calls: number }>
+  >();
+  // Other processes today: key_id -> method -> units
+  private external = new Map<string, Map<string, number>>();
+  private refreshedAt = new Map<string, number>();
+  // Keys that hit quotaExceeded: key_id -> when (cleared at the daily reset)
+  private exhausted = new Map<string, string>();
+  private dirty = new Set<string>();
+  private writes: Promise<void> = Promise.resolve();
+  private flushedAt = Date.now();
+
+  /**
+   * Record units spent by one API call (persisted with the next batch)
+   */
+  record(
+    method: YouTubeQuotaMethod,
+    apiKey: string = config.youtubeApiKey
+  ): void {
+    this.rollOver();
+    const keyId = this.keyId(apiKey);
+    const byMethod = this.local.get(keyId) || new Map();
+    const entry = byMethod.get(method) || { units: 0, calls: 0 };
+
+    entry.units += YOUTUBE_QUOTA_COSTS[method];
+    entry.calls++;
+    byMethod.set(method, entry);
+    this.local.set(keyId, byMethod);
+
+    this.dirty.add(`${keyId}|${method}`);
+    if (Date.now() - this.flushedAt >= FLUSH_INTERVAL_MS) {
+      this.flush().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Whether a call may spend quota now
+   * Low-priority calls (search) are refused once the configured share of the
+   * daily quota is used; everything else only warns past the full quota
+   */
+  async canSpend(
+    method: YouTubeQuotaMethod,
+    apiKey: string = config.youtubeApiKey
+  ): Promise<boolean> {
+    await this.refreshIfStale(apiKey);
+    const usage = this.getUsage(apiKey);
+    const cost = YOUTUBE_QUOTA_COSTS[method];
+
+    if (LOW_PRIORITY_METHODS.includes(method)) {
+      const cutoff = usage.limit * config.youtubeQuota.lowPriorityShare;
+      if (usage.used + cost > cutoff) {
+        logger.warn(
+          `🪫 YouTube ${method}.list refused: ${usage.used}/${usage.limit} units used today, low-priority calls stop at ${Math.round(
+            config.youtubeQuota.lowPriorityShare * 100
+          )}%`
+        );
+        return false;
+      }
+    } else if (usage.used + cost > usage.limit) {
+      logger.warn(
+        `🪫 YouTube quota estimate exceeded (${usage.used}/${usage.limit} units), calling ${method}.list anyway`
+      );
+    }
+
+    return true;
+  }
+
+  /**
+   * Today's usage for an API key (all processes, as of the last refresh)
+   */
+  getUsage(apiKey: string = config.youtubeApiKey): YouTubeQuotaUsage {
+    this.rollOver();
+    const keyId = this.keyId(apiKey);
+    const byMethod: Record<string, number> = {};
+
+    this.external.get(keyId)?.forEach((units, method) => {
+      byMethod[method] = (byMethod[method] || 0) + units;
+    });
+    this.local.get(keyId)?.forEach((entry, method) => {
+      byMethod[method] = (byMethod[method] || 0) + entry.units;
+    });
+
+    const used = Object.values(byMethod).reduce((sum, units) => sum + units, 0);
+    const limit = config.youtubeApiQuota;
+
+    return {
+      day: this.day,
+      key_id: keyId,
+      used,
+      limit,
+      remaining: Math.max(0, limit - used),
+      percentage: limit > 0 ? Math.round((used / limit) * 10000) / 100 : 0,
+      by_method: byMethod,
+    };
+  }
+
+  /**
+   * Mark a key as out of quota until the next Pacific-time day
+   */
+  markExhausted(apiKey: string): void {
+    this.rollOver();
+    const keyId = this.keyId(apiKey);
+    if (this.exhausted.has(keyId)) return;
+
+    this.exhausted.set(keyId, new Date().toISOString());
+    logger.warn(
+      `🪫 YouTube API key ${keyId} exhausted its quota until midnight Pacific time`
+    );
+  }
+
+  isExhausted(apiKey: string): boolean {
+    this.rollOver();
+    return this.exhausted.has(this.keyId(apiKey));
+  }
+
+  // When the key was marked exhausted today (null = still usable)
+  getExhaustedAt(apiKey: string): string | null {
+    this.rollOver();
+    return this.exhausted.get(this.keyId(apiKey)) || null;
+  }
+
+  /**
+   * Load what other processes spent today for a key
+   */
+  async refresh(apiKey: string = config.youtubeApiKey): Promise<void> {
+    this.rollOver();
+    const keyId = this.keyId(apiKey);
+
+    try {
+      const { data, error } = await supabaseService.supabase
+        .from(QUOTA_TABLE)
+        .select("method, source, units")
+        .eq("quota_day", this.day)
+        .eq("key_id", keyId);
+
+      if (error) {
+        logger.warn("Failed to load YouTube quota usage", {
+          error: error.message,
+        });
+        return;
+      }
+
+      const external = new Map<string, number>();
+      for (const row of (data || []) as QuotaUsageRow[]) {
+        if (row.source === this.source) continue;
+        external.set(row.method, (external.get(row.method) || 0) + row.units);
+      }
+      this.external.set(keyId, external);
+    } catch (err: any) {
+      logger.warn("Error loading YouTube quota usage", { error: err.message });
+    } finally {
+      this.refreshedAt.set(keyId, Date.now());
+    }
+  }
+
+  /**
+   * Persist pending counters (call before the process exits)
+   */
+  flush(): Promise<void> {
+    this.flushedAt = Date.now();
+    // Writes are chained so an older snapshot never lands last
+    this.writes = this.writes.then(() => this.write(this.takePendingRows()));
+    return this.writes;
+  }
+
+  // Rows for counters changed since the last write
+  private takePendingRows(): QuotaUsageRow[] {
+    const now = new Date().toISOString();
+    const rows: QuotaUsageRow[] = Array.from(this.dirty).map((entry) => {
+      const [keyId, method] = entry.split("|") as [string, YouTubeQuotaMethod];
+      const counters = this.local.get(keyId)?.get(method) || {
+        units: 0,
+        calls: 0,
+      };
+      return {
+        quota_day: this.day,
+        key_id: keyId,
+        method,
+        source: this.source,
+        units: counters.units,
+        calls: counters.calls,
+        updated_at: now,
+      };
+    });
+    this.dirty.clear();
+    return rows;
+  }
+
+  private async write(rows: QuotaUsageRow[]): Promise<void> {
+    if (rows.length === 0) return;
+
+    try {
+      const { error } = await supabaseService.supabase
+        .from(QUOTA_TABLE)
+        .upsert(rows, { onConflict: "quota_day,key_id,method,source" });
+
+      if (error) {
+        logger.warn("Failed to save YouTube quota usage", {
+          error: error.message,
+        });
+      }
+    } catch (err: any) {
+      logger.warn("Error saving YouTube quota usage", { error: err.message });
+    }
+  }
+
+  private async refreshIfStale(apiKey: string): Promise<void> {
+    const refreshedAt = this.refreshedAt.get(this.keyId(apiKey)) || 0;
+    if (Date.now() - refreshedAt >= config.youtubeQuota.refreshSeconds * 1000) {
+      await this.refresh(apiKey);
+    }
+  }
+
+  // Start from zero when the Pacific-time day changes
+  private rollOver(): void {
+    const today = this.quotaDay(new Date());
+    if (today === this.day) return;
+
+    if (this.day) {
+      // Persist what is still pending for the previous day first
+      const pending = this.takePendingRows();
+      this.writes = this.writes.then(() => this.write(pending));
+      logger.info(`🔄 YouTube quota day rolled over to ${today} (Pacific time)`);
+    }
+    this.day = today;
+    this.local.clear();
+    this.external.clear();
+    this.refreshedAt.clear();
+    this.exhausted.clear();
+    this.dirty.clear();
+  }
+
+  private quotaDay(date: Date): string {
+    // en-CA formats as YYYY-MM-DD
+    return new Intl.DateTimeFormat("en-CA", {
+      timeZone: QUOTA_TIME_ZONE,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    }).format(date);
+  }
+
+  // Keys are stored and reported as a short fingerprint, never in plain text
+  keyId(apiKey: string): string {
+    return crypto
+      .createHash("sha256")
+      .update(apiKey || "")
+      .digest("hex")
+      .substring(0, 12);
+  }
+}
+
+export const youtubeQuotaService = new YouTubeQuotaService();
@@ -0,0 +1,136 @@
+import { config } from "./config";
+import { ConfigurationError } from "./errors";
+import { BuiltInStage, PipelineStage, StageSelection } from "./types";
+import { stageRegistry } from "./services/stageRegistry";
+
+// Built-in stages in pipeline order (FinfluencerTracker registers them)
+export const PIPELINE_STAGES: BuiltInStage[] = [
+  "channels",
+  "gap_detection",
+  "live_videos",
+  "backfill",
+  "retries",
+  "analysis",
+  "combined",
+  "verification",
+  "availability",
+  "news",
+  "offerings",
+];
+
+// Stages that fetch transcripts from the paid providers
+export const TRANSCRIPT_STAGES: BuiltInStage[] = [
+  "channels",
+  "gap_detection",
+  "live_videos",
+  "backfill",
+  "retries",
+];
+
+// Every registered stage in pipeline order (built-ins until the registry is populated)
+export function getPipelineStages(): PipelineStage[] {
+  const registered = stageRegistry.names();
+  return registered.length > 0 ? registered : [...PIPELINE_STAGES];
+}
+
+// Narrow a configured name to a registered stage
+export function isPipelineStage(
+  name: string,
+  stages: PipelineStage[] = getPipelineStages()
+): name is PipelineStage {
+  return (stages as string[]).includes(name);
+}
+
+// Parse a comma-separated stage list ("combined, verification")
+// "all" expands to every stage; unknown names are a configuration error
+export function parseStageList(
+  value: string | undefined,
+  source: string
+): PipelineStage[] {
+  if (!value || !value.trim()) return [];
+
+  const stages = getPipelineStages();
+  const names = value
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (names.includes("all")) return stages;
+
+  const unknown = names.filter((name) => !isPipelineStage(name, stages));
+  if (unknown.length > 0) {
+    throw new ConfigurationError(
+      `Unknown stage(s) in ${source}: ${unknown.join(
+        ", "
+      )}. Valid stages: ${stages.join(", ")}`
+    );
+  }
+
+  // Keep pipeline order regardless of the order given
+  return stages.filter((stage) => names.includes(stage));
+}
+
+// Read "--name=value" from CLI args
+export function getArgValue(argv: string[], name: string): string | undefined {
+  const arg = argv.find((a) => a.startsWith(`--${name}=`));
+  return arg ? arg.substring(name.length + 3) : undefined;
+}
+
+/**
+ * Resolve which stages run in this execution
+ *
+ * CLI flags override environment variables:
+ *   --stages=combined,verification   (RUN_STAGES)
+ *   --skip=news                      (SKIP_STAGES)
+ *   --dry-run | --dry-run=combined   (DRY_RUN_STAGES, "all" allowed)
+ */
+export function resolveStageSelection(argv: string[] = []): StageSelection {
+  const runArg = getArgValue(argv, "stages");
+  const skipArg = getArgValue(argv, "skip");
+  const dryRunArg = argv.includes("--dry-run")
+    ? "all"
+    : getArgValue(argv, "dry-run");
+
+  const requested = parseStageList(
+    runArg ?? config.stages.run,
+    runArg !== undefined ? "--stages" : "RUN_STAGES"
+  );
+  const skipList = parseStageList(
+    skipArg ?? config.stages.skip,
+    skipArg !== undefined ? "--skip" : "SKIP_STAGES"
+  );
+  const dryRunList = parseStageList(
+    dryRunArg ?? config.stages.dryRun,
+    dryRunArg !== undefined ? "--dry-run" : "DRY_RUN_STAGES"
+  );
+
+  const allStages = getPipelineStages();
+  const candidates = requested.length > 0 ? requested : allStages;
+  const stages = candidates.filter((stage) => !skipList.includes(stage));
+
+  if (stages.length === 0) {
+    throw new ConfigurationError(
+      "Stage selection is empty: every requested stage was skipped"
+    );
+  }
+
+  return {
+    stages,
+    skipped: allStages.filter((stage) => !stages.includes(stage)),
+    dryRun: stages.filter((stage) => dryRunList.includes(stage)),
+  };
+}
+
+export function isStageSelected(
+  selection: StageSelection,
+  stage: PipelineStage
+): boolean {
+  return selection.stages.includes(stage);
+}
+
+export function isStageDryRun(
+  selection: StageSelection,
+  stage: PipelineStage
+): boolean {
+  return selection.dryRun.includes(stage);
+}
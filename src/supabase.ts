@@ -1,9 +1,16 @@
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
 import { config } from "./config";
-import { FinfluencerChannel, FinfluencerPrediction } from "./types";
+import {
+  FinfluencerChannel,
+  FinfluencerPrediction,
+  TrackedPlaylist,
+} from "./types";
 import { DatabaseError } from "./errors";
 import { logger, retryWithBackoff } from "./utils";
 import { AvatarService } from "./services/avatarService";
+import { eventBus } from "./services/eventBus";
+import { channelResolverService } from "./services/channelResolverService";
+import { transcriptStoreService } from "./services/transcriptStoreService";
 
 export class SupabaseService {
   private client: SupabaseClient;
@@ -71,6 +78,64 @@ export class SupabaseService {
     }
   }
 
+  // Fetch a tracked channel, active or not (null if it isn't tracked)
+  async getChannel(channelId: string): Promise<FinfluencerChannel | null> {
+    const { data, error } = await this.client
+      .from("finfluencer_channels")
+      .select("*")
+      .eq("channel_id", channelId)
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to fetch channel ${channelId}: ${error.message}`,
+        { cause: error }
+      );
+    }
+    return data;
+  }
+
+  // Active playlists tracked for a channel (empty = track all uploads)
+  async getTrackedPlaylists(channelId: string): Promise<TrackedPlaylist[]> {
+    const { data, error } = await this.client
+      .from("channel_playlists")
+      .select("*")
+      .eq("channel_id", channelId)
+      .eq("is_active", true)
+      .order("added_at", { ascending: true });
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to fetch tracked playlists: ${error.message}`,
+        { cause: error }
+      );
+    }
+    return data || [];
+  }
+
+  // Advance a tracked playlist's cursor
+  async updatePlaylistLastChecked(
+    channelId: string,
+    playlistId: string,
+    lastCheckedAt: string
+  ): Promise<void> {
+    const { error } = await this.client
+      .from("channel_playlists")
+      .update({ last_checked_at: lastCheckedAt })
+      .eq("channel_id", channelId)
+      .eq("playlist_id", playlistId);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to update playlist last_checked_at: ${error.message}`,
+        { cause: error }
+      );
+    }
+    logger.debug(
+      `Updated last_checked_at for playlist ${playlistId} to ${lastCheckedAt}`
+    );
+  }
+
   // Update channel's last checked timestamp
   async updateChannelLastChecked(channelId: string): Promise<void> {
     try {
@@ -394,6 +459,19 @@ export class SupabaseService {
         }
       );
 
+      eventBus.emit("video.analyzed", {
+        recordId,
+        videoId,
+        channelId,
+        channelName,
+        videoTitle,
+        postDate,
+        subjectOutcome,
+        hasTranscript,
+        predictionsCount: predictions.length,
+        isRetry: !!context.isRetry,
+      });
+
       return recordId;
     } catch (error) {
       logger.error(`Failed to record video analysis for ${params.videoId}`, {
@@ -665,6 +743,27 @@ export class SupabaseService {
 
   // ==================== UTILITY METHODS ====================
 
+  // Latest video recorded for a channel (null when none is recorded yet)
+  async getLatestChannelVideo(
+    channelId: string
+  ): Promise<{ video_id: string; post_date: string } | null> {
+    const { data, error } = await this.client
+      .from("finfluencer_predictions")
+      .select("video_id, post_date")
+      .eq("channel_id", channelId)
+      .order("post_date", { ascending: false })
+      .limit(1);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get latest video of channel ${channelId}: ${error.message}`,
+        { cause: error }
+      );
+    }
+
+    return data?.[0] || null;
+  }
+
   // Get channel statistics
   async getChannelStats(channelId: string): Promise<{
     totalVideos: number;
@@ -1065,6 +1164,35 @@ export class SupabaseService {
     }
   }
 
+  // Store the canonical channel of an offering submitted as a handle or URL
+  async updateOfferingChannel(
+    offeringId: string,
+    channel: { channelId: string; title: string; handle: string | null }
+  ): Promise<void> {
+    const updateData: any = {
+      channel_id: channel.channelId,
+      channel_title: channel.title,
+    };
+    if (channel.handle) {
+      updateData.channel_handle = channel.handle;
+    }
+
+    const { error } = await this.client
+      .from("finfluencer_offerings")
+      .update(updateData)
+      .eq("id", offeringId);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to update offering channel: ${error.message}`,
+        { cause: error }
+      );
+    }
+    logger.debug(
+      `Resolved offering ${offeringId} to channel ${channel.channelId}`
+    );
+  }
+
   // Update offering with evaluation result
   async updateOfferingEvaluation(
     offeringId: string,
@@ -1116,6 +1244,7 @@ export class SupabaseService {
   }
 
   // Add new finfluencer channel (called when offering is approved)
+  // channel_id may be a @handle or channel URL, it is stored as the UC… ID
   async addFinfluencerChannel(channelData: {
     channel_id: string;
     channel_name: string;
@@ -1127,6 +1256,13 @@ export class SupabaseService {
     last_checked_at: string | null;
   }): Promise<string> {
     try {
+      channelData = {
+        ...channelData,
+        channel_id: await channelResolverService.resolveChannelId(
+          channelData.channel_id
+        ),
+      };
+
       const { data, error } = await this.client
         .from("finfluencer_channels")
         .insert(channelData)
@@ -1188,6 +1324,9 @@ export class SupabaseService {
    * Used by AI verification service to get full context
    */
   async getRawTranscriptByVideoId(videoId: string): Promise<string | null> {
+    const stored = await transcriptStoreService.get(videoId);
+    if (stored?.transcript) return stored.transcript;
+
     try {
       const { data, error } = await this.client
         .from("finfluencer_predictions")
@@ -1206,12 +1345,41 @@ export class SupabaseService {
         return null;
       }
 
+      // Transcripts saved before the transcript store move into it on first read
+      if (data?.raw_transcript) {
+        await transcriptStoreService.save(videoId, data.raw_transcript, {
+          provider: "legacy",
+        });
+      }
       return data?.raw_transcript || null;
     } catch (error) {
       logger.error(`Error fetching transcript for video ${videoId}`, { error });
       return null;
     }
   }
+
+  /**
+   * Replace the raw transcript of a video's record (imported subtitles)
+   * Returns false when the video has no record yet
+   */
+  async setRawTranscript(videoId: string, transcript: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from("finfluencer_predictions")
+      .update({
+        raw_transcript: transcript,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("video_id", videoId)
+      .select("id");
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to update the transcript of video ${videoId}: ${error.message}`,
+        { cause: error }
+      );
+    }
+    return (data || []).length > 0;
+  }
 }
 
 // Export singleton instance
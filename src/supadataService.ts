@@ -1,5 +1,6 @@
 import { config } from './config';
 import { TranscriptError } from './errors';
+import { TranscriptPayload, TranscriptSegment } from './types';
 import { 
   logger, 
   retryWithBackoff, 
@@ -8,9 +9,21 @@ import {
   RateLimitMonitor,
   sleep 
 } from './utils';
+import { transcriptSpendService } from './services/transcriptSpendService';
+
+// Monthly allowance assumed when TRANSCRIPT_MONTHLY_BUDGETS has no supadata entry (free plan)
+const DEFAULT_MONTHLY_CREDITS = 100;
+
+// Timed chunk returned when text=false (offset and duration in milliseconds)
+export interface SupadataTranscriptChunk {
+  text: string;
+  offset: number;
+  duration: number;
+  lang?: string;
+}
 
 export interface SupadataTranscriptResponse {
-  content: string;
+  content: string | SupadataTranscriptChunk[];
   lang: string;
   availableLangs: string[];
   jobId?: string; // For async processing
@@ -18,7 +31,7 @@ export interface SupadataTranscriptResponse {
 
 export interface SupadataJobStatus {
   status: 'queued' | 'active' | 'completed' | 'failed';
-  content?: string;
+  content?: string | SupadataTranscriptChunk[];
   error?: string;
   lang?: string;
   availableLangs?: string[];
@@ -26,6 +39,7 @@ export interface SupadataJobStatus {
 
 export interface SupadataResult {
   content: string | null;
+  segments?: TranscriptSegment[] | null;
   error?: string;
   isAsync?: boolean;
   jobId?: string;
@@ -35,8 +49,6 @@ export class SupadataService {
   private readonly transcriptRateLimiter: EnhancedRateLimiter;
   private readonly resultRateLimiter: EnhancedRateLimiter;
   private readonly circuitBreaker: CircuitBreaker;
-  private creditsUsed = 0;
-  private lastCreditReset = new Date();
 
   constructor() {
     // Rate limiters for Supadata endpoints
@@ -73,6 +85,11 @@ export class SupadataService {
 
   // Get video transcript with credit optimization
   async getVideoTranscript(videoId: string): Promise<string> {
+    return (await this.getVideoTranscriptDetails(videoId)).transcript;
+  }
+
+  // Transcript plus how it was produced (native captions or generated)
+  async getVideoTranscriptDetails(videoId: string): Promise<TranscriptPayload> {
     if (!config.supadataApiKey || config.supadataApiKey.length < 10) {
       throw new TranscriptError('Supadata API key not configured');
     }
@@ -83,17 +100,13 @@ export class SupadataService {
     try {
       logger.info(`Requesting transcript from Supadata for video ${videoId}`);
       
-      // Reset monthly credits if needed
-      this.resetMonthlyCredits();
-      
       return await this.circuitBreaker.execute(async () => {
         // First attempt: Native mode (1 credit) - tries existing transcripts only
         let result = await this.fetchTranscript(videoUrl, 'native');
         
         if (result.content) {
-          this.creditsUsed += 1;
-          logger.info(`✅ Supadata native transcript successful for ${videoId} (1 credit used, total: ${this.creditsUsed})`);
-          return result.content;
+          logger.info(`✅ Supadata native transcript successful for ${videoId} (1 credit used)`);
+          return { transcript: result.content, captionKind: 'native' as const, segments: result.segments, credits: 1 };
         }
 
         // Second attempt: Auto mode (1-2 credits) - tries native, falls back to generate
@@ -102,9 +115,10 @@ export class SupadataService {
         
         if (result.content) {
           // Estimate credits: 1 for native success, 2 for generated transcript
-          this.creditsUsed += result.content.length < 100 ? 1 : 2; // Rough estimate based on transcript length
-          logger.info(`✅ Supadata auto transcript successful for ${videoId} (${result.content.length < 100 ? 1 : 2} credits used, total: ${this.creditsUsed})`);
-          return result.content;
+          const credits = result.content.length < 100 ? 1 : 2; // Rough estimate based on transcript length
+          logger.info(`✅ Supadata auto transcript successful for ${videoId} (${credits} credits used)`);
+          // Auto mode doesn't say whether it fell back to generating
+          return { transcript: result.content, captionKind: 'unknown' as const, segments: result.segments, credits };
         }
 
         // Third attempt: Generate mode (2 credits) - always uses AI
@@ -112,9 +126,8 @@ export class SupadataService {
         result = await this.fetchTranscript(videoUrl, 'generate');
         
         if (result.content) {
-          this.creditsUsed += 2;
-          logger.info(`✅ Supadata generated transcript successful for ${videoId} (2 credits used, total: ${this.creditsUsed})`);
-          return result.content;
+          logger.info(`✅ Supadata generated transcript successful for ${videoId} (2 credits used)`);
+          return { transcript: result.content, captionKind: 'generated' as const, segments: result.segments, credits: 2 };
         }
 
         // All attempts failed
@@ -153,7 +166,8 @@ export class SupadataService {
       
       // Choose endpoint based on available URLs
       const endpoint = this.getActiveEndpoint();
-      const urlWithParams = `${endpoint}/transcript?url=${url}&text=true&mode=${mode}`;
+      // text=false returns timed chunks; the plain text is joined from them
+      const urlWithParams = `${endpoint}/transcript?url=${url}&text=false&mode=${mode}`;
       
       const response = await fetch(urlWithParams, {
         method: 'GET',
@@ -192,10 +206,12 @@ export class SupadataService {
       }
       
       // Check for direct content
-      if (data.content && data.content.trim().length > 0) {
+      const { content, segments } = this.readContent(data.content);
+      if (content && content.trim().length > 0) {
         RateLimitMonitor.recordRequest('supadata-transcript', true, responseTime);
         return {
-          content: data.content,
+          content,
+          segments,
           isAsync: false
         };
       }
@@ -222,6 +238,31 @@ export class SupadataService {
     }
   }
 
+  // Plain text and timed segments from either content shape (string or chunks)
+  private readContent(
+    content: string | SupadataTranscriptChunk[] | undefined
+  ): { content: string | null; segments: TranscriptSegment[] | null } {
+    if (!content) {
+      return { content: null, segments: null };
+    }
+    if (typeof content === 'string') {
+      return { content, segments: null };
+    }
+
+    const segments = content
+      .filter(chunk => chunk && typeof chunk.text === 'string' && chunk.text.trim().length > 0)
+      .map(chunk => ({
+        start: (Number(chunk.offset) || 0) / 1000,
+        duration: (Number(chunk.duration) || 0) / 1000,
+        text: chunk.text.trim()
+      }));
+
+    return {
+      content: segments.map(segment => segment.text).join(' '),
+      segments: segments.length > 0 ? segments : null
+    };
+  }
+
   // Poll for async job result
   private async pollForJobResult(jobId: string): Promise<SupadataResult> {
     const startTime = Date.now();
@@ -263,8 +304,10 @@ export class SupadataService {
           logger.info(`🎉 Supadata job completed: ${jobId} after ${attempts + 1} attempts (${totalTime/1000}s)`);
           
           RateLimitMonitor.recordRequest('supadata-polling', true, totalTime);
+          const { content, segments } = this.readContent(jobData.content);
           return {
-            content: jobData.content,
+            content,
+            segments,
             isAsync: true,
             jobId
           };
@@ -317,9 +360,10 @@ export class SupadataService {
   // Get active endpoint (main Supadata or RapidAPI version)
   private getActiveEndpoint(): string {
     // Check if we should switch to RapidAPI version due to low credits
-    if (config.credits.switchPlatform && this.creditsUsed > (100 - config.supadataCreditsThreshold)) {
+    const { creditsUsed, creditsRemaining } = this.getCreditUsage();
+    if (config.credits.switchPlatform && creditsRemaining < config.supadataCreditsThreshold) {
       if (config.rapidapiSupadataUrl) {
-        logger.warn(`Switching to Supadata RapidAPI endpoint due to low credits (used: ${this.creditsUsed})`);
+        logger.warn(`Switching to Supadata RapidAPI endpoint due to low credits (used: ${creditsUsed})`);
         return config.rapidapiSupadataUrl;
       }
     }
@@ -327,16 +371,15 @@ export class SupadataService {
     return config.supadataUrl;
   }
 
-  // Reset monthly credits
-  private resetMonthlyCredits(): void {
-    const now = new Date();
-    const firstDayOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-    
-    if (this.lastCreditReset < firstDayOfMonth) {
-      logger.info('🔄 Monthly Supadata credit reset - starting fresh for new billing cycle');
-      this.creditsUsed = 0;
-      this.lastCreditReset = now;
-    }
+  // Credits spent this month according to the spend ledger
+  private getCreditUsage(): { month: string; creditsUsed: number; creditsRemaining: number } {
+    const usage = transcriptSpendService.getUsage('supadata');
+    const allowance = usage.budget ?? DEFAULT_MONTHLY_CREDITS;
+    return {
+      month: usage.month,
+      creditsUsed: usage.units,
+      creditsRemaining: Math.max(0, allowance - usage.units)
+    };
   }
 
   // Check if Supadata is properly configured
@@ -349,9 +392,7 @@ export class SupadataService {
   // Get credit usage statistics
   getCreditStats(): any {
     return {
-      creditsUsed: this.creditsUsed,
-      creditsRemaining: 100 - this.creditsUsed,
-      lastReset: this.lastCreditReset,
+      ...this.getCreditUsage(),
       activeEndpoint: this.getActiveEndpoint(),
       circuitBreaker: this.circuitBreaker.getStatus(),
       endpointStats: {
@@ -361,13 +402,6 @@ export class SupadataService {
     };
   }
 
-  // Reset credit usage (for testing or manual reset)
-  resetCredits(): void {
-    this.creditsUsed = 0;
-    this.lastCreditReset = new Date();
-    logger.info('📊 Supadata credit usage reset');
-  }
-
   // Get current rate limiting statistics
   getRateLimitStats(): any {
     return {
@@ -0,0 +1,148 @@
+import {
+  TranscriptQuality,
+  TranscriptQualityChecks,
+  TranscriptSegment,
+  YouTubeVideo,
+} from "./types";
+import { detectLanguage, parseYouTubeDuration } from "./utils";
+
+// What a transcript is graded against
+export interface TranscriptExpectations {
+  language?: string | null; // Video's (audio) language, e.g. "tr" or "en-US"
+  durationSeconds?: number | null;
+}
+
+// Languages detectLanguage() can tell apart; others are not checked
+const DETECTABLE_LANGUAGES = ["tr", "en"];
+
+// Words per sequence when looking for looped text
+const REPETITION_NGRAM = 4;
+
+// Bracketed caption tags ([Music], [Müzik], [Applause]) and music notes
+const TAG_PATTERN = /\[[^\]]{1,30}\]|[♪♫]+/g;
+
+// Hesitation sounds, English and Turkish
+const FILLER_WORDS = new Set([
+  "uh",
+  "uhm",
+  "um",
+  "umm",
+  "hm",
+  "hmm",
+  "mm",
+  "erm",
+  "eh",
+  "ah",
+  "aa",
+  "aaa",
+  "ee",
+  "eee",
+  "ıı",
+  "ııı",
+  "ıh",
+]);
+
+// Expectations of a video from its metadata (audio language first)
+export function transcriptExpectations(
+  video: Pick<
+    YouTubeVideo,
+    "defaultAudioLanguage" | "defaultLanguage" | "duration"
+  >
+): TranscriptExpectations {
+  const durationSeconds = video.duration
+    ? parseYouTubeDuration(video.duration)
+    : 0;
+  return {
+    language: video.defaultAudioLanguage || video.defaultLanguage || null,
+    durationSeconds: durationSeconds > 0 ? durationSeconds : null,
+  };
+}
+
+// 0 at `bad`, 1 at `good`, linear in between (works in either direction)
+function scale(value: number, bad: number, good: number): number {
+  return Math.min(1, Math.max(0, (value - bad) / (good - bad)));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Grade a transcript from 0 to 1
+// Each check is scored on its own and the grade is the weakest score, so a
+// looped, music-only, wrong-language or cut-off transcript grades low even
+// when everything else about it looks fine. Checks that lack their input
+// (unknown language, no duration, no timings) are left out.
+export function gradeTranscript(
+  transcript: string,
+  expected: TranscriptExpectations = {},
+  segments?: TranscriptSegment[] | null
+): TranscriptQuality {
+  const tags = transcript.match(TAG_PATTERN) || [];
+  const words = transcript
+    .replace(TAG_PATTERN, " ")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s']/gu, " ")
+    .split(/\s+/)
+    .filter((word) => word.length > 0);
+  const fillers = words.filter((word) => FILLER_WORDS.has(word)).length;
+  const tokens = words.length + tags.length;
+  const spoken = words.length - fillers;
+
+  const checks: TranscriptQualityChecks = {
+    repetition_ratio: round(repetitionRatio(words)),
+    language: null,
+    language_match: null,
+    words_per_minute: null,
+    coverage: null,
+    filler_density: tokens > 0 ? round((fillers + tags.length) / tokens) : 1,
+  };
+  const scores: Array<[string, number]> = [
+    ["repetition", scale(checks.repetition_ratio, 0.5, 0.2)],
+    ["filler", scale(checks.filler_density, 0.3, 0.1)],
+  ];
+
+  const expectedLanguage = (expected.language || "")
+    .toLowerCase()
+    .split(/[-_]/)[0];
+  const detected = detectLanguage(transcript);
+  if (
+    DETECTABLE_LANGUAGES.includes(expectedLanguage) &&
+    detected !== "unknown"
+  ) {
+    checks.language = detected;
+    checks.language_match = detected === expectedLanguage;
+    scores.push(["language", checks.language_match ? 1 : 0]);
+  }
+
+  if (expected.durationSeconds && expected.durationSeconds > 0) {
+    const minutes = expected.durationSeconds / 60;
+    checks.words_per_minute = Math.round(spoken / minutes);
+    scores.push(["words_per_minute", scale(checks.words_per_minute, 20, 70)]);
+
+    if (segments && segments.length > 0) {
+      const last = segments[segments.length - 1];
+      checks.coverage = round(
+        Math.min(1, (last.start + last.duration) / expected.durationSeconds)
+      );
+      scores.push(["coverage", scale(checks.coverage, 0.4, 0.8)]);
+    }
+  }
+
+  return {
+    grade: round(Math.min(...scores.map(([, score]) => score))),
+    checks,
+    issues: scores.filter(([, score]) => score < 1).map(([name]) => name),
+  };
+}
+
+// Share of REPETITION_NGRAM-word sequences that already occurred earlier
+function repetitionRatio(words: string[]): number {
+  const total = words.length - REPETITION_NGRAM + 1;
+  if (total <= 0) return 0;
+
+  const seen = new Set<string>();
+  for (let i = 0; i < total; i++) {
+    seen.add(words.slice(i, i + REPETITION_NGRAM).join(" "));
+  }
+  return 1 - seen.size / total;
+}
@@ -0,0 +1,82 @@
+import { PredictionSegmentRef, TranscriptSegment } from "./types";
+
+// Longest transcript window a prediction is matched against (seconds)
+const MAX_WINDOW_SECONDS = 45;
+
+// Share of the prediction's words that must appear in the window
+const MIN_MATCH_SCORE = 0.4;
+
+// YouTube link that starts playback at the given second
+export function buildTimestampUrl(videoId: string, seconds: number): string {
+  return `https://www.youtube.com/watch?v=${videoId}&t=${Math.max(
+    0,
+    Math.floor(seconds)
+  )}s`;
+}
+
+// Lowercased words without punctuation (any script); single letters are dropped
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .split(/\s+/)
+    .filter((word) => word.length > 1);
+}
+
+// Find the transcript window a prediction was taken from
+// Every run of consecutive segments up to MAX_WINDOW_SECONDS long is scored
+// by the share of the text's words it contains; the best window wins, the
+// shorter one on a tie. Null when nothing reaches MIN_MATCH_SCORE.
+export function findSegmentWindow(
+  segments: TranscriptSegment[] | null | undefined,
+  text: string,
+  videoId: string
+): PredictionSegmentRef | null {
+  if (!segments || segments.length === 0 || !text) return null;
+
+  const wanted = new Set(tokenize(text));
+  if (wanted.size === 0) return null;
+
+  const segmentWords = segments.map((segment) => tokenize(segment.text));
+  let best: { from: number; to: number; score: number; span: number } | null =
+    null;
+
+  for (let from = 0; from < segments.length; from++) {
+    const found = new Set<string>();
+    const windowStart = segments[from].start;
+
+    for (let to = from; to < segments.length; to++) {
+      const windowEnd = segments[to].start + segments[to].duration;
+      if (to > from && windowEnd - windowStart > MAX_WINDOW_SECONDS) break;
+
+      segmentWords[to].forEach((word) => {
+        if (wanted.has(word)) found.add(word);
+      });
+
+      const score = found.size / wanted.size;
+      const span = windowEnd - windowStart;
+      if (
+        !best ||
+        score > best.score ||
+        (score === best.score && span < best.span)
+      ) {
+        best = { from, to, score, span };
+      }
+    }
+  }
+
+  if (!best || best.score < MIN_MATCH_SCORE) return null;
+
+  const start = segments[best.from].start;
+  const last = segments[best.to];
+  return {
+    start,
+    end: last.start + last.duration,
+    quote: segments
+      .slice(best.from, best.to + 1)
+      .map((segment) => segment.text)
+      .join(" "),
+    url: buildTimestampUrl(videoId, start),
+    match_score: Math.round(best.score * 100) / 100,
+  };
+}
@@ -5,6 +5,18 @@ export interface FinfluencerChannel {
   is_active: boolean;
   last_checked_at: string | null;
   added_at: string;
+  discovery_mode?: "api" | "feed" | null; // null = YOUTUBE_DISCOVERY_MODE
+  transcript_providers?: string[] | null; // null = TRANSCRIPT_PROVIDERS
+}
+
+// A playlist tracked instead of the channel's uploads (channel_playlists)
+export interface TrackedPlaylist {
+  channel_id: string;
+  playlist_id: string;
+  title: string | null;
+  is_active: boolean;
+  last_checked_at: string | null; // Latest time a video was added to the playlist
+  added_at: string;
 }
 
 export interface FinfluencerPrediction {
@@ -39,6 +51,8 @@ export interface Prediction {
   confidence: "low" | "medium" | "high";
   quality_score?: number;
   quality_breakdown?: any;
+  source_quote?: string | null; // Verbatim excerpt the AI says the prediction comes from
+  source_segment?: PredictionSegmentRef | null; // Where it is said, when the transcript has timings
   extraction_metadata?: {
     currency_detection_confidence?: "low" | "medium" | "high"; // Confidence in detected currency
     multiple_currencies_detected?: string[]; // List of all currencies found in text
@@ -46,6 +60,17 @@ export interface Prediction {
   };
 }
 
+/**
+ * The transcript window a prediction was matched to
+ */
+export interface PredictionSegmentRef {
+  start: number; // Seconds
+  end: number;
+  quote: string; // Transcript text of the window, verbatim
+  url: string; // YouTube link anchored at start (t=)
+  match_score: number; // 0-1 word overlap between the prediction and the window
+}
+
 export interface AIModification {
   field: string;
   original_value: string | number;
@@ -63,6 +88,145 @@ export interface YouTubeVideo {
   duration?: string;
   defaultLanguage?: string;
   defaultAudioLanguage?: string;
+  liveBroadcastContent?: "live" | "upcoming" | "none";
+  scheduledStartTime?: string; // Livestreams and premieres only
+  actualEndTime?: string; // Set once a stream or premiere has ended
+}
+
+export type VideoDeferralReason = "live" | "upcoming" | "captions_pending";
+
+/**
+ * A live stream or premiere waiting to be processed (deferred_videos table)
+ */
+export interface DeferredVideo {
+  video_id: string;
+  channel_id: string;
+  video_title: string;
+  published_at: string; // Original publish date, used as the prediction date
+  reason: VideoDeferralReason;
+  status: "waiting" | "processed" | "expired";
+  scheduled_start_at: string | null;
+  attempts: number;
+  failures: number; // Processing attempts that threw
+  first_seen_at: string;
+  next_check_at: string;
+  last_checked_at: string | null;
+  resolved_at: string | null;
+  note: string | null;
+}
+
+// What videos.list (plus oEmbed for missing videos) says about a source video
+export type VideoAvailabilityStatus =
+  | "available"
+  | "unlisted"
+  | "private"
+  | "deleted";
+
+export type VideoAvailabilityChange =
+  | "deleted"
+  | "privated"
+  | "unlisted"
+  | "restored"
+  | "title_changed";
+
+/**
+ * Last known state of a video backing predictions (video_availability table)
+ */
+export interface VideoAvailability {
+  video_id: string;
+  channel_id: string;
+  status: VideoAvailabilityStatus;
+  title: string;
+  first_checked_at: string;
+  last_checked_at: string;
+  status_changed_at: string | null;
+  title_changed_at: string | null;
+}
+
+// How a transcript was produced: captions published on YouTube (manual or
+// automatic), speech-to-text by the provider, or not reported
+export type TranscriptCaptionKind = "native" | "generated" | "unknown";
+
+/**
+ * A timed piece of a transcript (seconds from the start of the video)
+ */
+export interface TranscriptSegment {
+  start: number;
+  duration: number;
+  text: string;
+}
+
+/**
+ * What the quality grader measured on a transcript
+ */
+export interface TranscriptQualityChecks {
+  repetition_ratio: number; // Share of repeated 4-word sequences
+  language: string | null; // Detected language, null when not checked
+  language_match: boolean | null; // Against the video's audio language
+  words_per_minute: number | null; // Null without the video duration
+  coverage: number | null; // Share of the video the timings reach
+  filler_density: number; // Share of caption tags and hesitation sounds
+}
+
+export interface TranscriptQuality {
+  grade: number; // 0-1, the weakest check
+  checks: TranscriptQualityChecks;
+  issues: string[]; // Checks that scored below 1
+}
+
+/**
+ * A transcript with what its provider reported about it
+ */
+export interface TranscriptPayload {
+  transcript: string;
+  language?: string | null;
+  captionKind?: TranscriptCaptionKind;
+  segments?: TranscriptSegment[] | null; // When the provider returns timings
+  credits?: number; // What the call was charged, when the provider reports it
+}
+
+/**
+ * A fetched transcript and its provenance (video_transcripts table)
+ */
+export interface StoredTranscript {
+  video_id: string;
+  transcript: string;
+  provider: string; // Transcript provider name, "legacy" for imported rows
+  language: string | null;
+  caption_kind: TranscriptCaptionKind;
+  fetched_at: string;
+  char_count: number;
+  content_hash: string; // SHA-256 of the transcript text
+  segments?: TranscriptSegment[] | null; // Null when the provider had no timings
+  quality_grade?: number | null; // Null for transcripts stored before grading
+  quality?: TranscriptQuality | null;
+  refetched_at?: string | null; // When a low-grade copy was re-fetched (only once)
+}
+
+export interface BackfillFilters {
+  min_duration_seconds?: number;
+  title_keywords?: string[]; // Any of them, case-insensitive
+}
+
+export type BackfillJobStatus = "pending" | "completed";
+
+/**
+ * Channel history queued for the backfill stage (backfill_jobs table)
+ */
+export interface BackfillJob {
+  id: string;
+  channel_id: string;
+  published_after: string;
+  published_before: string;
+  filters: BackfillFilters;
+  videos: YouTubeVideo[]; // Matching videos, oldest first
+  processed_ids: string[];
+  failed_ids: string[];
+  quota_estimate: number; // Units budgeted for the enumeration
+  status: BackfillJobStatus;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
 }
 
 export interface AIAnalysisResult {
@@ -95,6 +259,78 @@ export interface CronJobStats {
   end_time?: Date;
 }
 
+/**
+ * Pipeline stages in execution order
+ * Used for stage selection (--stages / RUN_STAGES) and run reporting
+ */
+export type BuiltInStage =
+  | "channels"
+  | "gap_detection"
+  | "live_videos"
+  | "backfill"
+  | "retries"
+  | "analysis"
+  | "combined"
+  | "verification"
+  | "availability"
+  | "news"
+  | "offerings";
+
+/**
+ * Names of custom (plugin) stages
+ * A plugin declares its stage names by augmenting this interface, e.g.
+ * `declare module "<path>/types" { interface CustomStages { my_stage: true } }`,
+ * and registers the stages through the stage registry
+ */
+export interface CustomStages {}
+
+// Built-in stages plus the declared custom stages
+export type PipelineStage = BuiltInStage | keyof CustomStages;
+
+/**
+ * Resolved stage plan for a single run
+ */
+export interface StageSelection {
+  stages: PipelineStage[]; // Stages that will run, in pipeline order
+  skipped: PipelineStage[]; // Stages excluded by selection or skip list
+  dryRun: PipelineStage[]; // Selected stages that run without side effects
+}
+
+/**
+ * Persisted progress of a single stage within a run (run_checkpoints table)
+ * Lets a restarted run with the same run_id resume where it stopped
+ */
+export interface StageCheckpoint {
+  run_id: string;
+  stage: PipelineStage;
+  cursor: string | null; // Stage-specific position (channel ID, analysis keyset, ...)
+  processed_ids: string[]; // Items handled past the cursor (or by stages without one)
+  completed: boolean;
+  updated_at: string;
+}
+
+/**
+ * Work a stage left behind when its time budget ran out (run report)
+ */
+export interface DeferredWork {
+  stage: PipelineStage;
+  reason: "run_budget" | "stage_budget";
+  deferred_at: string;
+  pending_ids: string[]; // Empty when the stage resumes from its own queue
+}
+
+/**
+ * Lease held by the running tracker (run_locks table)
+ */
+export interface RunLockLease {
+  name: string;
+  holder: string;
+  run_id: string;
+  acquired_at: string;
+  heartbeat_at: string;
+  expires_at: string;
+}
+
 /**
  * Comprehensive run report for the entire pipeline
  * Replaces CronJobStats with detailed metrics per stage
@@ -107,6 +343,49 @@ export interface RunReport {
   duration_ms: number;
   status: "running" | "success" | "partial" | "failed";
   version: string;
+  segments: number; // Number of process runs that contributed (resumes + 1)
+
+  // Stage plan
+  stages: {
+    requested: PipelineStage[];
+    skipped: PipelineStage[];
+    dry_run: PipelineStage[];
+    executed: PipelineStage[];
+    failed: PipelineStage[]; // Threw; later stages still ran
+    blocked: PipelineStage[]; // Not run because a dependency failed or was blocked
+  };
+
+  // Report sections owned by registered stages, keyed by stage name
+  sections: Record<string, Record<string, number | string>>;
+
+  // Run lock lease held by this run
+  lock: {
+    holder: string;
+    acquired_at: string;
+    expires_at: string;
+    taken_over_from: string | null; // Previous holder when a stale lease was taken over
+  };
+
+  // Work left behind when a time budget ran out (prioritized by the next run)
+  deferred: DeferredWork[];
+
+  // YouTube Data API units spent by this run per key (key fingerprint)
+  youtube_quota: {
+    rotations: number; // Switches to another key (quotaExceeded or search share used)
+    keys: Record<
+      string,
+      { calls: number; units: number; exhausted_at: string }
+    >;
+  };
+
+  // Transcript provider spend of this run (units = credits or requests)
+  transcript_spend: {
+    currency: string;
+    providers: Record<
+      string,
+      { calls: number; units: number; cost: number; budget_exhausted_at: string }
+    >;
+  };
 
   // Stage 1: Channels & Videos
   channels: {
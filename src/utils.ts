@@ -1,3 +1,5 @@
+import crypto from 'crypto';
+import os from 'os';
 import winston from 'winston';
 import { config } from './config';
 import { ProcessingLog } from './types';
@@ -73,6 +75,34 @@ export function safeJsonParse<T>(jsonString: string, fallback: T): T {
   }
 }
 
+/**
+ * Run a worker over items with at most `concurrency` in flight
+ * Worker errors are logged and never stop the other workers; once
+ * shouldStop() returns true no new items are started
+ */
+export async function runWithWorkerPool<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+  shouldStop: () => boolean = () => false
+): Promise<void> {
+  let next = 0;
+  const size = Math.max(1, Math.min(Math.floor(concurrency) || 1, items.length));
+
+  const runWorker = async (): Promise<void> => {
+    while (next < items.length && !shouldStop()) {
+      const index = next++;
+      try {
+        await worker(items[index], index);
+      } catch (error) {
+        logger.error('Worker pool task failed', { index, error });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: size }, () => runWorker()));
+}
+
 // JSON response cleanup for common AI response issues
 export function cleanJsonResponse(response: string): string {
   let cleaned = response.trim();
@@ -162,6 +192,15 @@ export function sanitizeText(text: string): string {
     .trim();
 }
 
+// Heuristic check that a transcript looks like real captions/subtitles:
+// long enough, and with line breaks or more than 20 words
+export function isUsableTranscript(text: string | null | undefined): boolean {
+  if (!text) return false;
+  const trimmed = text.trim();
+  if (trimmed.length < 50) return false; // too short to be a real transcript
+  return trimmed.includes('\n') || trimmed.split(/\s+/).length > 20;
+}
+
 // Calculate processing statistics
 export function calculateProcessingStats(logs: ProcessingLog[]): {
   totalProcessed: number;
@@ -198,6 +237,14 @@ export function getMemoryUsage(): {
   };
 }
 
+// Identifies this process in per-process ledger rows. The random part keeps it
+// unique across restarts: a restarted container keeps its hostname and pid
+export const processSource = [
+  os.hostname(),
+  process.pid,
+  crypto.randomUUID().substring(0, 8)
+].join(':');
+
 // Graceful shutdown handler
 export function setupGracefulShutdown(handler: () => Promise<void>): void {
   const signals = ['SIGTERM', 'SIGINT', 'SIGUSR2'];
@@ -219,29 +266,29 @@ export function setupGracefulShutdown(handler: () => Promise<void>): void {
 
 // Basic RateLimiter
 export class RateLimiter {
-  private lastRequest = 0;
+  private nextSlot = 0;
   private minInterval: number;
 
   constructor(requestsPerSecond: number) {
     this.minInterval = 1000 / requestsPerSecond;
   }
 
+  // Reserves the next slot up front so concurrent callers queue instead of
+  // all passing the interval check at once
   async wait(): Promise<void> {
     const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequest;
-    
-    if (timeSinceLastRequest < this.minInterval) {
-      const waitTime = this.minInterval - timeSinceLastRequest;
-      await new Promise(resolve => setTimeout(resolve, waitTime));
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.minInterval;
+
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
     }
-    
-    this.lastRequest = Date.now();
   }
 }
 
 // Enhanced RateLimiter with jitter and 429 handling
 export class EnhancedRateLimiter {
-  private lastRequest = 0;
+  private nextSlot = 0;
   private minInterval: number;
   private readonly maxRetries = 5;
   private readonly baseDelay = 2000;
@@ -251,18 +298,18 @@ export class EnhancedRateLimiter {
   }
 
   async wait(): Promise<void> {
+    // Reserve a slot so concurrent workers sharing this limiter stay spaced
     const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequest;
-    
-    if (timeSinceLastRequest < this.minInterval) {
-      const waitTime = this.minInterval - timeSinceLastRequest;
-      // Add jitter (±25% of the wait time) to prevent thundering herd
-      const jitter = waitTime * 0.25 * (Math.random() - 0.5) * 2;
-      const finalWaitTime = Math.max(0, waitTime + jitter);
-      await new Promise(resolve => setTimeout(resolve, finalWaitTime));
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.minInterval;
+
+    if (slot > now) {
+      const waitTime = slot - now;
+      // Add jitter (0-25% of the wait time) to prevent thundering herd;
+      // only ever later than the reserved slot so spacing is kept
+      const jitter = waitTime * 0.25 * Math.random();
+      await new Promise(resolve => setTimeout(resolve, waitTime + jitter));
     }
-    
-    this.lastRequest = Date.now();
   }
 
   // Handle 429 errors with exponential backoff
@@ -1,6 +1,6 @@
 import { google, youtube_v3 } from "googleapis";
 import { config } from "./config";
-import { YouTubeVideo, YouTubeError } from "./types";
+import { YouTubeVideo, YouTubeError, VideoDeferralReason } from "./types";
 import { YouTubeError as YouTubeServiceError, TranscriptError } from "./errors";
 import {
   logger,
@@ -14,16 +14,41 @@ import {
 import { rapidapiService } from "./rapidapi";
 import { supadataService } from "./supadataService";
 import { transcriptAPIService } from "./services/transcriptAPIService";
+import {
+  youtubeFeedService,
+  ChannelFeedEntry,
+  FEED_MAX_ENTRIES,
+} from "./services/youtubeFeedService";
+import {
+  youtubeQuotaService,
+  YouTubeQuotaMethod,
+  YOUTUBE_QUOTA_COSTS,
+} from "./services/youtubeQuotaService";
+import { reportingService } from "./services/reportingService";
+import {
+  transcriptProviderRegistry,
+  TranscriptFetchResult,
+} from "./services/transcriptProviderRegistry";
+import { transcriptStoreService } from "./services/transcriptStoreService";
+import { supabaseService } from "./supabase";
+import { gradeTranscript, TranscriptExpectations } from "./transcriptQuality";
+import { IMPORT_PROVIDER } from "./services/subtitleImportService";
+
+// How new uploads of a channel are discovered
+export type ChannelDiscoveryMode = "api" | "feed";
 
 export class YouTubeService {
-  private youtube: youtube_v3.Youtube;
+  // One client per configured API key, used in config order
+  private clients = new Map<string, youtube_v3.Youtube>();
+  private activeKeyIndex = 0;
+  private keyRotations = 0;
   private rateLimiter: RateLimiter;
+  private discoveryStats = { feed: 0, feedFallbacks: 0, api: 0 };
 
   constructor() {
-    this.youtube = google.youtube({
-      version: "v3",
-      auth: config.youtubeApiKey,
-    });
+    for (const apiKey of config.youtubeApiKeys) {
+      this.clients.set(apiKey, google.youtube({ version: "v3", auth: apiKey }));
+    }
 
     // Rate limit to respect YouTube API quota (10000 units per day)
     this.rateLimiter = new RateLimiter(2); // 2 requests per second
@@ -32,12 +57,13 @@ export class YouTubeService {
   // Test YouTube API connection
   async testConnection(): Promise<boolean> {
     try {
-      await this.rateLimiter.wait();
-      const response = await this.youtube.channels.list({
-        part: ["id"],
-        maxResults: 1,
-        id: ["UCBR8-60-B28hp2BmDPdntcQ"], // YouTube's official channel
-      });
+      const response = await this.callApi("channels", (youtube) =>
+        youtube.channels.list({
+          part: ["id"],
+          maxResults: 1,
+          id: ["UCBR8-60-B28hp2BmDPdntcQ"], // YouTube's official channel
+        })
+      );
 
       if (response.status !== 200) {
         throw new YouTubeServiceError(
@@ -69,11 +95,12 @@ export class YouTubeService {
     }
 
     try {
-      await this.rateLimiter.wait();
-      const response = await this.youtube.channels.list({
-        part: ["snippet", "statistics"],
-        id: [channelId],
-      });
+      const response = await this.callApi("channels", (youtube) =>
+        youtube.channels.list({
+          part: ["snippet", "statistics"],
+          id: [channelId],
+        })
+      );
 
       if (response.status !== 200) {
         throw new YouTubeServiceError(
@@ -122,24 +149,89 @@ export class YouTubeService {
     }
   }
 
+  // Look up a channel by ID, @handle or legacy username (1 unit)
+  // Returns null when no channel matches
+  async findChannel(lookup: {
+    id?: string;
+    forHandle?: string;
+    forUsername?: string;
+  }): Promise<{
+    id: string;
+    title: string;
+    handle: string | null;
+    raw: any;
+  } | null> {
+    try {
+      const response = await this.callApi("channels", (youtube) =>
+        youtube.channels.list({
+          part: ["snippet", "statistics"],
+          ...(lookup.id ? { id: [lookup.id] } : {}),
+          ...(lookup.forHandle ? { forHandle: lookup.forHandle } : {}),
+          ...(lookup.forUsername ? { forUsername: lookup.forUsername } : {}),
+        })
+      );
+
+      const channel = response.data.items?.[0];
+      if (!channel?.id) return null;
+
+      return {
+        id: channel.id,
+        title: channel.snippet?.title || "Unknown Channel",
+        // customUrl holds the @handle for channels that have one
+        handle: channel.snippet?.customUrl?.startsWith("@")
+          ? channel.snippet.customUrl
+          : null,
+        raw: { snippet: channel.snippet, statistics: channel.statistics },
+      };
+    } catch (error) {
+      throw new YouTubeServiceError(
+        `Failed to look up channel: ${(error as Error).message}`,
+        { cause: error }
+      );
+    }
+  }
+
+  // Discovery mode of a channel (finfluencer_channels.discovery_mode
+  // overrides YOUTUBE_DISCOVERY_MODE)
+  static getDiscoveryMode(channel: {
+    discovery_mode?: string | null;
+  }): ChannelDiscoveryMode {
+    const mode = channel.discovery_mode || config.youtubeFeed.discoveryMode;
+    return mode === "feed" ? "feed" : "api";
+  }
+
   // Get videos from channel since specific date (optionally until another date)
+  // ZERO-QUOTA: "feed" discovery reads the channel's Atom feed first
   // OPTIMIZED: Uses playlistItems.list (1 unit) instead of search.list (100 units)
   // Falls back to search.list if playlistItems fails
   async getChannelVideos(
     channelId: string,
     publishedAfter: Date,
-    publishedBefore?: Date
+    publishedBefore?: Date,
+    discovery: ChannelDiscoveryMode = "api",
+    maxPages: number = 10
   ): Promise<YouTubeVideo[]> {
     if (!isValidYouTubeChannelId(channelId)) {
       throw new YouTubeServiceError(`Invalid channel ID format: ${channelId}`);
     }
 
+    if (discovery === "feed") {
+      const videos = await this.getChannelVideosViaFeed(
+        channelId,
+        publishedAfter,
+        publishedBefore
+      );
+      if (videos) return videos;
+    }
+    this.discoveryStats.api++;
+
     try {
       // Try optimized playlistItems.list first (1 unit per call)
       const videos = await this.getChannelVideosViaPlaylist(
         channelId,
         publishedAfter,
-        publishedBefore
+        publishedBefore,
+        maxPages
       );
       return videos;
     } catch (playlistError) {
@@ -156,12 +248,90 @@ export class YouTubeService {
     }
   }
 
+  // ZERO-QUOTA: Detect new uploads from the channel's Atom feed and call
+  // videos.list only for those IDs (no call at all when nothing is new)
+  // Returns null when the Data API has to be used instead: the feed failed,
+  // looks stale (lists neither the latest video we already know about nor
+  // anything newer) or lists fewer entries than the channel uploaded since
+  // publishedAfter. A feed without newer entries is a channel without new
+  // uploads, not a stale feed.
+  private async getChannelVideosViaFeed(
+    channelId: string,
+    publishedAfter: Date,
+    publishedBefore?: Date
+  ): Promise<YouTubeVideo[] | null> {
+    const fallback = (reason: string) => {
+      this.discoveryStats.feedFallbacks++;
+      logger.warn(
+        `⚠️ Feed for channel ${channelId} ${reason}, falling back to the Data API`
+      );
+      return null;
+    };
+
+    let entries: ChannelFeedEntry[];
+    try {
+      entries = await youtubeFeedService.getChannelFeed(channelId);
+    } catch (error) {
+      return fallback(`unavailable (${(error as Error).message})`);
+    }
+
+    let lastKnown: { video_id: string; post_date: string } | null;
+    try {
+      lastKnown = await supabaseService.getLatestChannelVideo(channelId);
+    } catch (error) {
+      return fallback(`cannot be checked (${(error as Error).message})`);
+    }
+
+    if (
+      lastKnown &&
+      !entries.some(
+        (entry) =>
+          entry.videoId === lastKnown.video_id ||
+          new Date(entry.publishedAt) >= new Date(lastKnown.post_date)
+      )
+    ) {
+      return fallback(
+        `looks stale (newest entry ${entries[0]?.publishedAt || "none"}, last known video ${lastKnown.video_id} from ${lastKnown.post_date})`
+      );
+    }
+
+    const oldest = entries[entries.length - 1];
+    if (
+      oldest &&
+      entries.length >= FEED_MAX_ENTRIES &&
+      new Date(oldest.publishedAt) >= publishedAfter
+    ) {
+      return fallback("may be missing uploads (all entries are new)");
+    }
+
+    const newIds = entries
+      .filter((entry) => {
+        const published = new Date(entry.publishedAt);
+        return (
+          published >= publishedAfter &&
+          (!publishedBefore || published <= publishedBefore)
+        );
+      })
+      .map((entry) => entry.videoId);
+
+    const videos = await this.getVideosMetadata(newIds);
+
+    this.discoveryStats.feed++;
+    logger.info(
+      `📰 [FEED] Found ${newIds.length} new video(s) for channel ${channelId} (${Math.ceil(
+        newIds.length / 50
+      )} API unit(s))`
+    );
+    return videos;
+  }
+
   // OPTIMIZED: Get videos using playlistItems.list (1 unit per call)
   // Converts channel ID to uploads playlist ID and fetches with early stopping
   private async getChannelVideosViaPlaylist(
     channelId: string,
     publishedAfter: Date,
-    publishedBefore?: Date
+    publishedBefore?: Date,
+    maxPages: number = 10
   ): Promise<YouTubeVideo[]> {
     // Convert channel ID (UC...) to uploads playlist ID (UU...)
     const uploadsPlaylistId = this.getUploadsPlaylistId(channelId);
@@ -175,14 +345,15 @@ export class YouTubeService {
 
     do {
       apiCalls++;
-      await this.rateLimiter.wait();
-
-      const response = await this.youtube.playlistItems.list({
-        part: ["snippet", "contentDetails"],
-        playlistId: uploadsPlaylistId,
-        maxResults: 50, // Maximum allowed
-        pageToken: nextPageToken,
-      });
+      const pageToken = nextPageToken;
+      const response = await this.callApi("playlistItems", (youtube) =>
+        youtube.playlistItems.list({
+          part: ["snippet", "contentDetails"],
+          playlistId: uploadsPlaylistId,
+          maxResults: 50, // Maximum allowed
+          pageToken,
+        })
+      );
 
       if (response.status !== 200) {
         throw new YouTubeServiceError(
@@ -245,9 +416,11 @@ export class YouTubeService {
 
       nextPageToken = response.data.nextPageToken || undefined;
 
-      // Safety limit: Don't fetch more than 10 pages (500 videos)
-      if (apiCalls >= 10) {
-        logger.warn(`⚠️ Reached max pages (10) for channel ${channelId}`);
+      // Safety limit: Don't fetch more than maxPages pages (500 videos by default)
+      if (apiCalls >= maxPages) {
+        logger.warn(
+          `⚠️ Reached max pages (${maxPages}) for channel ${channelId}`
+        );
         break;
       }
     } while (nextPageToken);
@@ -258,6 +431,77 @@ export class YouTubeService {
     return videos;
   }
 
+  // Videos of an explicit playlist (playlist-scoped channels)
+  // Playlists are not ordered by date, so every page is read (up to 10 pages):
+  // items added to the playlist after addedAfter and published after
+  // publishedAfter are returned, latestAddedAt is the newest addition seen
+  async getPlaylistVideos(
+    playlistId: string,
+    options: { addedAfter?: Date; publishedAfter?: Date } = {}
+  ): Promise<{ videos: YouTubeVideo[]; latestAddedAt: string | null }> {
+    const videoIds: string[] = [];
+    let latestAddedAt: string | null = null;
+    let nextPageToken: string | undefined = undefined;
+    let apiCalls = 0;
+
+    do {
+      apiCalls++;
+      const pageToken = nextPageToken;
+      const response = await this.callApi("playlistItems", (youtube) =>
+        youtube.playlistItems.list({
+          part: ["snippet", "contentDetails"],
+          playlistId,
+          maxResults: 50,
+          pageToken,
+        })
+      );
+
+      if (response.status !== 200) {
+        throw new YouTubeServiceError(
+          `Failed to fetch playlist items: HTTP ${response.status}`,
+          { code: response.status }
+        );
+      }
+
+      for (const item of response.data.items || []) {
+        const videoId = item.contentDetails?.videoId;
+        // snippet.publishedAt is when the item was added to the playlist
+        const addedAt = item.snippet?.publishedAt;
+        const publishedAt = item.contentDetails?.videoPublishedAt || addedAt;
+        if (!videoId || !addedAt || !publishedAt) continue;
+
+        if (!latestAddedAt || new Date(addedAt) > new Date(latestAddedAt)) {
+          latestAddedAt = addedAt;
+        }
+        if (options.addedAfter && new Date(addedAt) <= options.addedAfter) {
+          continue;
+        }
+        if (
+          options.publishedAfter &&
+          new Date(publishedAt) < options.publishedAfter
+        ) {
+          continue;
+        }
+        if (!videoIds.includes(videoId)) videoIds.push(videoId);
+      }
+
+      nextPageToken = response.data.nextPageToken || undefined;
+
+      if (apiCalls >= 10 && nextPageToken) {
+        logger.warn(`⚠️ Reached max pages (10) for playlist ${playlistId}`);
+        break;
+      }
+    } while (nextPageToken);
+
+    const videos =
+      videoIds.length > 0 ? await this.getVideosMetadata(videoIds) : [];
+
+    logger.info(
+      `📋 Fetched ${videos.length} videos from playlist ${playlistId} using ${apiCalls} playlistItems call(s)`
+    );
+    return { videos, latestAddedAt };
+  }
+
   // Convert channel ID to uploads playlist ID
   // YouTube channel IDs start with "UC", uploads playlist IDs start with "UU"
   private getUploadsPlaylistId(channelId: string): string {
@@ -287,17 +531,20 @@ export class YouTubeService {
       );
 
       do {
-        await this.rateLimiter.wait();
-        const response = await this.youtube.search.list({
-          part: ["snippet"],
-          channelId: channelId,
-          type: ["video"],
-          publishedAfter: publishedAfterISO,
-          ...(publishedBeforeISO && { publishedBefore: publishedBeforeISO }),
-          maxResults: config.youtubeMaxResults,
-          order: "date",
-          pageToken: nextPageToken,
-        });
+        await this.ensureSearchQuota(`channel ${channelId}`);
+        const pageToken = nextPageToken;
+        const response = await this.callApi("search", (youtube) =>
+          youtube.search.list({
+            part: ["snippet"],
+            channelId: channelId,
+            type: ["video"],
+            publishedAfter: publishedAfterISO,
+            ...(publishedBeforeISO && { publishedBefore: publishedBeforeISO }),
+            maxResults: config.youtubeMaxResults,
+            order: "date",
+            pageToken,
+          })
+        );
 
         if (response.status !== 200) {
           throw new YouTubeServiceError(
@@ -345,11 +592,12 @@ export class YouTubeService {
   // Get detailed video information for multiple videos
   private async getVideoDetails(videoIds: string[]): Promise<YouTubeVideo[]> {
     try {
-      await this.rateLimiter.wait();
-      const response = await this.youtube.videos.list({
-        part: ["snippet", "contentDetails"],
-        id: videoIds,
-      });
+      const response = await this.callApi("videos", (youtube) =>
+        youtube.videos.list({
+          part: ["snippet", "contentDetails", "liveStreamingDetails"],
+          id: videoIds,
+        })
+      );
 
       if (response.status !== 200) {
         throw new YouTubeServiceError(
@@ -364,6 +612,7 @@ export class YouTubeService {
       return items.map((item) => {
         const snippet = item.snippet;
         const contentDetails = item.contentDetails;
+        const live = item.liveStreamingDetails;
 
         return {
           videoId: item.id!,
@@ -375,6 +624,11 @@ export class YouTubeService {
           duration: contentDetails?.duration,
           defaultLanguage: snippet?.defaultLanguage,
           defaultAudioLanguage: snippet?.defaultAudioLanguage,
+          liveBroadcastContent: snippet?.liveBroadcastContent as
+            | YouTubeVideo["liveBroadcastContent"]
+            | undefined,
+          scheduledStartTime: live?.scheduledStartTime || undefined,
+          actualEndTime: live?.actualEndTime || undefined,
         };
       });
     } catch (error) {
@@ -386,156 +640,82 @@ export class YouTubeService {
     }
   }
 
-  // Get transcript for a video using 3-tier fallback system
+  // Get transcript for a video: the stored copy (video_transcripts) if any,
+  // else through the transcript provider chain (TRANSCRIPT_PROVIDERS order, or
+  // the channel's own transcript_providers), storing what it returns with its
+  // quality grade against `expected` (see transcriptExpectations)
+  // A stored copy grading below TRANSCRIPT_MIN_GRADE (copies stored before
+  // grading are graded here) is re-fetched once; the better of the two is kept
   // Returns a structured result so callers can handle 'no transcript' gracefully
   async getVideoTranscript(
     videoId: string,
-    videoLanguage?: string
-  ): Promise<{ transcript: string | null; error?: string }> {
+    videoLanguage?: string,
+    providers?: string[] | null,
+    expected?: TranscriptExpectations
+  ): Promise<TranscriptFetchResult> {
     if (!isValidYouTubeVideoId(videoId)) {
       return { transcript: null, error: `invalid_video_id:${videoId}` };
     }
 
-    try {
-      // ========== TIER 1: RAPIDAPI (Primary) ==========
-      if (rapidapiService.isConfigured()) {
-        try {
-          logger.info(
-            `🎯 [TIER 1] Fetching transcript from RapidAPI for video ${videoId}`
-          );
-          const startTime = Date.now();
-
-          const transcript = await rapidapiService.getVideoTranscript(videoId);
-
-          if (transcript && transcript.trim().length > 0) {
-            const duration = Date.now() - startTime;
-            logger.info(
-              `✅ [TIER 1 SUCCESS] RapidAPI transcript for video ${videoId} (${transcript.length} characters, ${duration}ms)`
-            );
-            return { transcript };
-          }
-        } catch (error) {
-          const isRateLimitError =
-            (error as Error).message.includes("429") ||
-            (error as Error).message.includes("rate limit");
-          const errorType = isRateLimitError ? "rate_limited" : "failed";
-
-          logger.warn(
-            `❌ [TIER 1 ${errorType.toUpperCase()}] RapidAPI transcript failed for video ${videoId}, trying Tier 2`,
-            {
-              error: (error as Error).message,
-              service: "rapidapi",
-            }
-          );
-        }
-      } else {
-        logger.debug(
-          `⏭️ [TIER 1 SKIPPED] RapidAPI not configured for video ${videoId}`
-        );
-      }
+    // Transcripts are paid for once: later callers read the stored copy
+    const stored = await transcriptStoreService.get(videoId);
+    let storedResult: TranscriptFetchResult | null = null;
+    if (stored?.transcript) {
+      storedResult = {
+        transcript: stored.transcript,
+        provider: stored.provider,
+        language: stored.language,
+        captionKind: stored.caption_kind,
+        segments: stored.segments || null,
+        quality:
+          stored.quality ||
+          gradeTranscript(stored.transcript, expected, stored.segments),
+        stored: true,
+      };
 
-      // ========== TIER 2: SUPADATA DIRECT (Secondary) ==========
-      if (supadataService.isConfigured()) {
-        try {
-          logger.info(
-            `🎯 [TIER 2] Fetching transcript from Supadata Direct for video ${videoId}`
-          );
-          const startTime = Date.now();
-
-          const transcript = await supadataService.getVideoTranscript(videoId);
-
-          if (transcript && transcript.trim().length > 0) {
-            const duration = Date.now() - startTime;
-            logger.info(
-              `✅ [TIER 2 SUCCESS] Supadata Direct transcript for video ${videoId} (${transcript.length} characters, ${duration}ms)`
-            );
-            return { transcript };
-          }
-        } catch (error) {
-          const isCreditError =
-            (error as Error).message.includes("insufficient") ||
-            (error as Error).message.includes("credit");
-
-          if (isCreditError) {
-            logger.error(
-              `💳 [TIER 2 CREDITS EXHAUSTED] Supadata Direct credits exhausted for video ${videoId}`,
-              {
-                error: (error as Error).message,
-                service: "supadata-direct",
-              }
-            );
-            // Don't return early - try Tier 3
-          }
-
-          logger.warn(
-            `❌ [TIER 2 FAILED] Supadata Direct transcript failed for video ${videoId}`,
-            {
-              error: (error as Error).message,
-              service: "supadata-direct",
-            }
-          );
-        }
-      } else {
-        logger.debug(
-          `⏭️ [TIER 2 SKIPPED] Supadata Direct not configured for video ${videoId}`
+      // Imported files are kept as given
+      const refetch =
+        storedResult.quality.grade < config.transcripts.minGrade &&
+        !stored.refetched_at &&
+        stored.provider !== IMPORT_PROVIDER;
+      if (!refetch) {
+        logger.info(
+          `💾 Using stored transcript for video ${videoId} (${stored.provider}, ${stored.char_count} characters)`
         );
+        return storedResult;
       }
+      logger.info(
+        `📉 Stored transcript for video ${videoId} graded ${storedResult.quality.grade} (${stored.provider}), re-fetching`
+      );
+    }
 
-      // ========== TIER 3: TRANSCRIPTAPI.COM (Tertiary) ==========
-      if (transcriptAPIService.isConfigured()) {
-        try {
-          logger.info(
-            `🎯 [TIER 3] Fetching transcript from TranscriptAPI.com for video ${videoId}`
-          );
-          const startTime = Date.now();
-
-          const transcript = await transcriptAPIService.getVideoTranscript(
-            videoId
-          );
-
-          if (transcript && transcript.trim().length > 0) {
-            const duration = Date.now() - startTime;
-            logger.info(
-              `✅ [TIER 3 SUCCESS] TranscriptAPI.com transcript for video ${videoId} (${transcript.length} characters, ${duration}ms)`
-            );
-            return { transcript };
-          }
-        } catch (error) {
-          const isCreditError =
-            (error as Error).message.includes("insufficient") ||
-            (error as Error).message.includes("credit") ||
-            (error as Error).message.includes("Payment Required");
-
-          if (isCreditError) {
-            logger.error(
-              `💳 [TIER 3 CREDITS EXHAUSTED] TranscriptAPI.com credits exhausted for video ${videoId}`,
-              {
-                error: (error as Error).message,
-                service: "transcriptapi",
-              }
-            );
-            // Don't return early - fall through to ALL TIERS FAILED
-          } else {
-            logger.warn(
-              `❌ [TIER 3 FAILED] TranscriptAPI.com transcript failed for video ${videoId}`,
-              {
-                error: (error as Error).message,
-                service: "transcriptapi",
-              }
-            );
-          }
-        }
-      } else {
-        logger.warn(
-          `⚠️ [TIER 3 NOT AVAILABLE] TranscriptAPI.com not configured (missing TRANSCRIPTAPI_COM_API_KEY) for video ${videoId}`
+    try {
+      const result = await transcriptProviderRegistry.fetchTranscript(
+        videoId,
+        { language: videoLanguage, providers, expected }
+      );
+      if (
+        storedResult &&
+        (!result.transcript ||
+          (result.quality?.grade ?? 0) <= storedResult.quality.grade)
+      ) {
+        await transcriptStoreService.markRefetched(videoId);
+        logger.info(
+          `💾 No better transcript for video ${videoId}, keeping the stored one`
         );
+        return storedResult;
       }
-
-      // ========== ALL TIERS FAILED ==========
-      logger.error(
-        `💥 [ALL TIERS FAILED] No transcript available for video ${videoId} from any service`
-      );
-      return { transcript: null, error: "no_transcript_available" };
+      if (result.transcript) {
+        await transcriptStoreService.save(videoId, result.transcript, {
+          provider: result.provider,
+          language: result.language,
+          captionKind: result.captionKind,
+          segments: result.segments,
+          quality: result.quality,
+          refetchedAt: storedResult ? new Date().toISOString() : null,
+        });
+      }
+      return result;
     } catch (error) {
       const msg = (error as Error).message || String(error);
       logger.error(
@@ -545,6 +725,8 @@ export class YouTubeService {
           videoId,
         }
       );
+      // A failed re-fetch still leaves the stored copy
+      if (storedResult) return storedResult;
       return { transcript: null, error: `transcript_error:${msg}` };
     }
   }
@@ -585,6 +767,55 @@ export class YouTubeService {
     }
   }
 
+  // Get metadata for many videos (videos.list, 50 IDs per unit)
+  // Deleted or private videos are missing from the result
+  async getVideosMetadata(videoIds: string[]): Promise<YouTubeVideo[]> {
+    const videos: YouTubeVideo[] = [];
+    for (let i = 0; i < videoIds.length; i += 50) {
+      videos.push(...(await this.getVideoDetails(videoIds.slice(i, i + 50))));
+    }
+    return videos;
+  }
+
+  // Title and privacy status per video, batched 50 per videos.list call
+  // Deleted and private videos are absent from the result
+  async getVideoStatuses(
+    videoIds: string[]
+  ): Promise<Map<string, { title: string; privacyStatus: string }>> {
+    const statuses = new Map<
+      string,
+      { title: string; privacyStatus: string }
+    >();
+
+    for (let i = 0; i < videoIds.length; i += 50) {
+      const batch = videoIds.slice(i, i + 50);
+      const response = await this.callApi("videos", (youtube) =>
+        youtube.videos.list({
+          part: ["snippet", "status"],
+          id: batch,
+          maxResults: 50,
+        })
+      );
+
+      if (response.status !== 200) {
+        throw new YouTubeServiceError(
+          `Failed to fetch video statuses: HTTP ${response.status}`,
+          { code: response.status }
+        );
+      }
+
+      for (const item of response.data.items || []) {
+        if (!item.id) continue;
+        statuses.set(item.id, {
+          title: item.snippet?.title || "",
+          privacyStatus: item.status?.privacyStatus || "public",
+        });
+      }
+    }
+
+    return statuses;
+  }
+
   // Search for videos by query (useful for finding finfluencer content)
   async searchVideos(
     query: string,
@@ -596,7 +827,7 @@ export class YouTubeService {
       let nextPageToken: string | undefined = undefined;
 
       do {
-        await this.rateLimiter.wait();
+        await this.ensureSearchQuota(`query "${query}"`);
         const searchParams: any = {
           part: ["snippet"],
           type: ["video"],
@@ -610,7 +841,9 @@ export class YouTubeService {
           searchParams.publishedAfter = publishedAfter.toISOString();
         }
 
-        const response = await this.youtube.search.list(searchParams);
+        const response = await this.callApi("search", (youtube) =>
+          youtube.search.list(searchParams)
+        );
 
         if (response.status !== 200) {
           throw new YouTubeServiceError(
@@ -652,7 +885,16 @@ export class YouTubeService {
   }
 
   // Check if video is live or upcoming (skip these for transcript processing)
+  // Uses liveBroadcastContent from videos.list, title/description keywords
+  // when it is not available
   static isLiveOrUpcoming(video: YouTubeVideo): boolean {
+    if (video.liveBroadcastContent) {
+      return (
+        video.liveBroadcastContent === "live" ||
+        video.liveBroadcastContent === "upcoming"
+      );
+    }
+
     const title = video.title.toLowerCase();
     const description = (video.description || "").toLowerCase();
 
@@ -669,6 +911,23 @@ export class YouTubeService {
     );
   }
 
+  // Why a video can't be processed yet (null = ready)
+  // Ended streams wait a while since captions appear some time after the end
+  static getDeferralReason(video: YouTubeVideo): VideoDeferralReason | null {
+    if (YouTubeService.isLiveOrUpcoming(video)) {
+      return video.liveBroadcastContent === "upcoming" ? "upcoming" : "live";
+    }
+
+    if (video.actualEndTime) {
+      const endedMs = Date.now() - new Date(video.actualEndTime).getTime();
+      if (endedMs < config.liveVideos.captionDelayMinutes * 60000) {
+        return "captions_pending";
+      }
+    }
+
+    return null;
+  }
+
   // Filter videos by duration (skip very short or very long videos)
   static filterByDuration(
     videos: YouTubeVideo[],
@@ -685,32 +944,165 @@ export class YouTubeService {
     });
   }
 
-  // Get API quota usage estimate
+  // Get API quota usage for today (Pacific time, all runs and scripts),
+  // summed over every configured key; exhausted keys have nothing remaining
   getQuotaUsage(): {
     daily: number;
     percentage: number;
     remaining: number;
   } {
-    // Rough estimation based on typical usage
-    const dailyQuota = config.youtubeApiQuota;
-    const estimatedUsage = dailyQuota * 0.1; // Assume 10% usage
-    const percentage = (estimatedUsage / dailyQuota) * 100;
-    const remaining = dailyQuota - estimatedUsage;
+    const usages = this.getKeyUsage();
+    const daily = usages.reduce((sum, usage) => sum + usage.used, 0);
+    const limit = usages.reduce((sum, usage) => sum + usage.limit, 0);
 
     return {
-      daily: estimatedUsage,
-      percentage: Math.round(percentage * 100) / 100,
-      remaining,
+      daily,
+      percentage: limit > 0 ? Math.round((daily / limit) * 10000) / 100 : 0,
+      remaining: usages.reduce(
+        (sum, usage) => sum + (usage.exhausted_at ? 0 : usage.remaining),
+        0
+      ),
     };
   }
 
-  // Get combined API statistics for all three services
+  // Today's usage of every configured key (fingerprints only)
+  getKeyUsage(): Array<
+    ReturnType<typeof youtubeQuotaService.getUsage> & {
+      active: boolean;
+      exhausted_at: string | null;
+    }
+  > {
+    const activeIndex = this.findUsableKeyIndex();
+    return config.youtubeApiKeys.map((apiKey, index) => ({
+      ...youtubeQuotaService.getUsage(apiKey),
+      active: index === activeIndex,
+      exhausted_at: youtubeQuotaService.getExhaustedAt(apiKey),
+    }));
+  }
+
+  // The key calls go out with: the current one unless it is exhausted, then
+  // the next usable key in config order (null = every key is exhausted)
+  private getActiveKey(): string | null {
+    const index = this.findUsableKeyIndex();
+    if (index === null) return null;
+
+    this.rotateKey(index);
+    return config.youtubeApiKeys[index];
+  }
+
+  // Index of the key the next call would use, without switching to it
+  private findUsableKeyIndex(): number | null {
+    const keys = config.youtubeApiKeys;
+    for (let offset = 0; offset < keys.length; offset++) {
+      const index = (this.activeKeyIndex + offset) % keys.length;
+      if (!youtubeQuotaService.isExhausted(keys[index])) return index;
+    }
+    return null;
+  }
+
+  // Every switch of the active key goes through here so it is counted
+  private rotateKey(index: number): void {
+    if (index === this.activeKeyIndex) return;
+
+    const keys = config.youtubeApiKeys;
+    this.activeKeyIndex = index;
+    this.keyRotations++;
+    reportingService.incrementYouTubeKeyRotations();
+    logger.warn(
+      `🔁 Rotated to YouTube API key ${youtubeQuotaService.keyId(
+        keys[index]
+      )} (${index + 1}/${keys.length})`
+    );
+  }
+
+  // Every Data API call goes through here: rate limit, persisted quota units
+  // per key and rotation to the next key when one runs out of quota
+  private async callApi<T>(
+    method: YouTubeQuotaMethod,
+    request: (youtube: youtube_v3.Youtube) => Promise<T>
+  ): Promise<T> {
+    for (;;) {
+      const apiKey = this.getActiveKey();
+      if (!apiKey) {
+        throw new YouTubeServiceError(
+          `All ${config.youtubeApiKeys.length} YouTube API key(s) exhausted their quota until midnight Pacific time`,
+          { code: 403 }
+        );
+      }
+
+      await this.rateLimiter.wait();
+      try {
+        return await request(this.clients.get(apiKey)!);
+      } catch (error) {
+        if (!YouTubeService.isQuotaExceeded(error)) throw error;
+
+        youtubeQuotaService.markExhausted(apiKey);
+        reportingService.markYouTubeKeyExhausted(
+          youtubeQuotaService.keyId(apiKey)
+        );
+        // Retry the same request with the next key
+      } finally {
+        // Failed requests are charged too
+        youtubeQuotaService.record(method, apiKey);
+        reportingService.recordYouTubeCall(
+          youtubeQuotaService.keyId(apiKey),
+          YOUTUBE_QUOTA_COSTS[method]
+        );
+      }
+    }
+  }
+
+  // 403 quotaExceeded / dailyLimitExceeded (per-second rate limits are not)
+  private static isQuotaExceeded(error: any): boolean {
+    const reasons = [
+      ...(error?.errors || []),
+      ...(error?.response?.data?.error?.errors || []),
+    ].map((entry: any) => entry?.reason);
+    return reasons.some(
+      (reason) => reason === "quotaExceeded" || reason === "dailyLimitExceeded"
+    );
+  }
+
+  // search.list costs 100 units: refuse it once its share of the quota is
+  // used on every key (a key with room left becomes the active one)
+  private async ensureSearchQuota(target: string): Promise<void> {
+    const activeKey = this.getActiveKey();
+    const keys = config.youtubeApiKeys;
+    const start = Math.max(0, keys.indexOf(activeKey));
+
+    for (let offset = 0; offset < keys.length; offset++) {
+      const index = (start + offset) % keys.length;
+      if (youtubeQuotaService.isExhausted(keys[index])) continue;
+      if (await youtubeQuotaService.canSpend("search", keys[index])) {
+        this.rotateKey(index);
+        return;
+      }
+    }
+
+    throw new YouTubeServiceError(
+      `YouTube search quota share exhausted, not searching ${target}`,
+      { code: 429 }
+    );
+  }
+
+  // Get combined API statistics for the transcript services and YouTube
+  // (read-only: never switches the active key)
   getApiStats(): any {
+    const activeIndex = this.findUsableKeyIndex();
     return {
       rapidapi: rapidapiService.getRateLimitStats(),
       supadata: supadataService.getRateLimitStats(),
       supadataCredits: supadataService.getCreditStats(),
       transcriptapi: transcriptAPIService.getRateLimitStats(),
+      transcriptProviders: transcriptProviderRegistry.getStatus(),
+      youtubeQuota: youtubeQuotaService.getUsage(
+        activeIndex === null
+          ? config.youtubeApiKey
+          : config.youtubeApiKeys[activeIndex]
+      ),
+      youtubeKeys: this.getKeyUsage(),
+      youtubeKeyRotations: this.keyRotations,
+      youtubeDiscovery: { ...this.discoveryStats },
     };
   }
 }
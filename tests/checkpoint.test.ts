@@ -0,0 +1,44 @@
+import "./support/env";
+import { beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { useFakeSupabase } from "./support/fakeSupabase";
+import { checkpointService } from "../src/services/checkpointService";
+
+const db = useFakeSupabase({ run_checkpoints: ["run_id", "stage"] });
+
+beforeEach(async () => {
+  db.reset();
+  await checkpointService.load("run-1");
+});
+
+test("keeps the IDs of stages without a cursor", async () => {
+  await checkpointService.commit("channels", { processedIds: ["UC1"] });
+  await checkpointService.commit("channels", { processedIds: ["UC2", "UC1"] });
+
+  assert.deepEqual(checkpointService.get("channels").processed_ids, [
+    "UC1",
+    "UC2",
+  ]);
+  assert.equal(checkpointService.isProcessed("channels", "UC2"), true);
+});
+
+test("moving the cursor drops the IDs it covers", async () => {
+  await checkpointService.commit("analysis", { processedIds: ["1", "2"] });
+  await checkpointService.commit("analysis", { cursor: "k2" });
+  await checkpointService.commit("analysis", { processedIds: ["3"] });
+
+  const [row] = db.rows("run_checkpoints");
+  assert.equal(row.cursor, "k2");
+  assert.deepEqual(row.processed_ids, ["3"]);
+});
+
+test("a resumed segment loads the committed progress", async () => {
+  await checkpointService.commit("gap_detection", { cursor: "UC7" });
+  await checkpointService.complete("channels");
+
+  await checkpointService.load("run-1");
+
+  assert.equal(checkpointService.get("gap_detection").cursor, "UC7");
+  assert.equal(checkpointService.isCompleted("channels"), true);
+  assert.equal(checkpointService.isCompleted("analysis"), false);
+});
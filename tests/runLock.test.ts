@@ -0,0 +1,73 @@
+import "./support/env";
+import { afterEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { useFakeSupabase } from "./support/fakeSupabase";
+import { RunLockError } from "../src/errors";
+import { runLockService } from "../src/services/runLockService";
+
+const db = useFakeSupabase({ run_locks: ["name"] });
+const LOCK_NAME = "finfluencer-tracker";
+
+function otherLease(expiresInMs: number) {
+  return {
+    name: LOCK_NAME,
+    holder: "other-host:1",
+    run_id: "run-other",
+    acquired_at: new Date().toISOString(),
+    heartbeat_at: new Date().toISOString(),
+    expires_at: new Date(Date.now() + expiresInMs).toISOString(),
+  };
+}
+
+afterEach(async () => {
+  await runLockService.release();
+  db.reset();
+});
+
+test("acquires a free lock", async () => {
+  await runLockService.acquire("run-1");
+
+  assert.equal(runLockService.getLease()?.run_id, "run-1");
+  assert.equal(db.rows("run_locks").length, 1);
+  assert.equal(db.rows("run_locks")[0].run_id, "run-1");
+});
+
+test("refuses a live lease held by another process", async () => {
+  db.seed("run_locks", otherLease(60000));
+
+  await assert.rejects(runLockService.acquire("run-1"), RunLockError);
+  assert.equal(runLockService.getLease(), null);
+  assert.equal(db.rows("run_locks")[0].holder, "other-host:1");
+});
+
+test("takes over a stale lease", async () => {
+  db.seed("run_locks", otherLease(-1000));
+
+  await runLockService.acquire("run-1");
+
+  const [row] = db.rows("run_locks");
+  assert.equal(row.run_id, "run-1");
+  assert.notEqual(row.holder, "other-host:1");
+});
+
+test("releases only its own lease", async () => {
+  await runLockService.acquire("run-1");
+  await runLockService.release();
+
+  assert.equal(db.rows("run_locks").length, 0);
+  assert.equal(runLockService.getLease(), null);
+});
+
+test("reports a lease lost to another run", async () => {
+  const reasons: string[] = [];
+  await runLockService.acquire("run-1", (reason) => reasons.push(reason));
+
+  // Another run took the lease over while this one was working
+  db.reset();
+  db.seed("run_locks", otherLease(60000));
+  await (runLockService as any).heartbeat();
+
+  assert.equal(reasons.length, 1);
+  assert.match(reasons[0], /Run lock lost/);
+  assert.equal(runLockService.getLease(), null);
+});
@@ -0,0 +1,6 @@
+// Settings the config needs to load; tests never reach these services
+// (Supabase is replaced by the in-memory fake)
+process.env.SUPABASE_URL ||= "http://127.0.0.1:9";
+process.env.SUPABASE_SERVICE_KEY ||= "test";
+process.env.YOUTUBE_API_KEY ||= "test";
+process.env.LOG_LEVEL ||= "error";
@@ -0,0 +1,249 @@
+import { supabaseService } from "../../src/supabase";
+
+type Row = Record<string, any>;
+
+interface FakeResult {
+  data: any;
+  error: { code?: string; message: string } | null;
+}
+
+/**
+ * In-memory stand-in for the Supabase client
+ * Covers the query builder calls the services under test make (insert,
+ * upsert, update, delete, select with eq/neq/lte/is/in filters, order, limit,
+ * single). Inserts that repeat a table's key fail with 23505 like Postgres.
+ */
+export class FakeSupabase {
+  private tables = new Map<string, Row[]>();
+  // Every executed query, e.g. "upsert transcript_provider_spend"
+  readonly queries: string[] = [];
+
+  constructor(private readonly keys: Record<string, string[]> = {}) {}
+
+  from(table: string): FakeQuery {
+    return new FakeQuery(this, table);
+  }
+
+  rows(table: string): Row[] {
+    if (!this.tables.has(table)) this.tables.set(table, []);
+    return this.tables.get(table);
+  }
+
+  seed(table: string, ...rows: Row[]): void {
+    this.rows(table).push(...rows.map((row) => ({ ...row })));
+  }
+
+  count(query: string): number {
+    return this.queries.filter((entry) => entry === query).length;
+  }
+
+  reset(): void {
+    this.tables.clear();
+    this.queries.length = 0;
+  }
+
+  keyOf(table: string): string[] {
+    return this.keys[table] || [];
+  }
+}
+
+class FakeQuery implements PromiseLike<FakeResult> {
+  private action: "select" | "insert" | "upsert" | "update" | "delete" =
+    "select";
+  private payload: Row | Row[] = null;
+  private conflictKeys: string[] = [];
+  private ignoreDuplicates = false;
+  private filters: Array<(row: Row) => boolean> = [];
+  private sorts: Array<{ column: string; ascending: boolean }> = [];
+  private max: number | null = null;
+  private mode: "many" | "single" | "maybeSingle" = "many";
+
+  constructor(private readonly db: FakeSupabase, private readonly table: string) {}
+
+  select(_columns?: string, _options?: unknown): this {
+    return this;
+  }
+
+  insert(payload: Row | Row[]): this {
+    this.action = "insert";
+    this.payload = payload;
+    return this;
+  }
+
+  upsert(
+    payload: Row | Row[],
+    options: { onConflict?: string; ignoreDuplicates?: boolean } = {}
+  ): this {
+    this.action = "upsert";
+    this.payload = payload;
+    this.conflictKeys = options.onConflict
+      ? options.onConflict.split(",").map((key) => key.trim())
+      : this.db.keyOf(this.table);
+    this.ignoreDuplicates = !!options.ignoreDuplicates;
+    return this;
+  }
+
+  update(payload: Row): this {
+    this.action = "update";
+    this.payload = payload;
+    return this;
+  }
+
+  delete(): this {
+    this.action = "delete";
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  neq(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] !== value);
+    return this;
+  }
+
+  lte(column: string, value: any): this {
+    this.filters.push((row) => row[column] <= value);
+    return this;
+  }
+
+  is(column: string, value: unknown): this {
+    this.filters.push((row) => (row[column] ?? null) === value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]): this {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.sorts.push({ column, ascending: options.ascending !== false });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.max = count;
+    return this;
+  }
+
+  single(): this {
+    this.mode = "single";
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.mode = "maybeSingle";
+    return this;
+  }
+
+  then<T1 = FakeResult, T2 = never>(
+    onFulfilled?: (value: FakeResult) => T1 | PromiseLike<T1>,
+    onRejected?: (reason: any) => T2 | PromiseLike<T2>
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onFulfilled, onRejected);
+  }
+
+  private execute(): FakeResult {
+    this.db.queries.push(`${this.action} ${this.table}`);
+    const rows = this.db.rows(this.table);
+    const matches = (row: Row) => this.filters.every((filter) => filter(row));
+
+    switch (this.action) {
+      case "insert": {
+        const inserted = this.list().map((row) => ({ ...row }));
+        const keys = this.db.keyOf(this.table);
+        if (
+          keys.length > 0 &&
+          inserted.some((row) => rows.some((other) => this.sameKey(row, other, keys)))
+        ) {
+          return {
+            data: null,
+            error: { code: "23505", message: "duplicate key value" },
+          };
+        }
+        rows.push(...inserted);
+        return this.shape(inserted);
+      }
+      case "upsert": {
+        const written: Row[] = [];
+        for (const row of this.list()) {
+          const existing = rows.find((other) =>
+            this.sameKey(row, other, this.conflictKeys)
+          );
+          if (existing && this.ignoreDuplicates) continue;
+          if (existing) {
+            Object.assign(existing, row);
+            written.push(existing);
+          } else {
+            rows.push({ ...row });
+            written.push(row);
+          }
+        }
+        return this.shape(written);
+      }
+      case "update": {
+        const updated = rows.filter(matches);
+        updated.forEach((row) => Object.assign(row, this.payload));
+        return this.shape(updated);
+      }
+      case "delete": {
+        const kept = rows.filter((row) => !matches(row));
+        const deleted = rows.filter(matches);
+        rows.splice(0, rows.length, ...kept);
+        return this.shape(deleted);
+      }
+      default: {
+        let selected = rows.filter(matches);
+        for (const { column, ascending } of [...this.sorts].reverse()) {
+          selected = [...selected].sort((a, b) => {
+            if (a[column] === b[column]) return 0;
+            return (a[column] < b[column] ? -1 : 1) * (ascending ? 1 : -1);
+          });
+        }
+        if (this.max !== null) selected = selected.slice(0, this.max);
+        return this.shape(selected);
+      }
+    }
+  }
+
+  private list(): Row[] {
+    return Array.isArray(this.payload) ? this.payload : [this.payload];
+  }
+
+  private sameKey(a: Row, b: Row, keys: string[]): boolean {
+    return keys.length > 0 && keys.every((key) => a[key] === b[key]);
+  }
+
+  private shape(rows: Row[]): FakeResult {
+    const copies = rows.map((row) => ({ ...row }));
+    if (this.mode === "many") return { data: copies, error: null };
+    if (copies.length === 1) return { data: copies[0], error: null };
+    if (copies.length === 0 && this.mode === "maybeSingle") {
+      return { data: null, error: null };
+    }
+    return {
+      data: null,
+      error: {
+        code: "PGRST116",
+        message: `Expected 1 row, got ${copies.length}`,
+      },
+    };
+  }
+}
+
+/**
+ * Route every Supabase call of the services to a fresh in-memory database
+ * `keys` lists each table's primary key columns
+ */
+export function useFakeSupabase(
+  keys: Record<string, string[]> = {}
+): FakeSupabase {
+  const db = new FakeSupabase(keys);
+  (supabaseService as any).client = db;
+  return db;
+}
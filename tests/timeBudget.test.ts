@@ -0,0 +1,101 @@
+import "./support/env";
+import { beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { useFakeSupabase } from "./support/fakeSupabase";
+import { reportingService } from "../src/services/reportingService";
+import { timeBudgetService } from "../src/services/timeBudgetService";
+import { DeferredWork } from "../src/types";
+
+const db = useFakeSupabase({ run_reports: ["run_id"] });
+
+function deferred(stage: DeferredWork["stage"], ids: string[]): DeferredWork {
+  return {
+    stage,
+    reason: "run_budget",
+    deferred_at: "2026-10-01T02:00:00.000Z",
+    pending_ids: ids,
+  };
+}
+
+beforeEach(() => {
+  db.reset();
+  db.seed(
+    "run_reports",
+    {
+      run_id: "run-1",
+      status: "partial",
+      started_at: "2026-10-01T00:00:00.000Z",
+      report: {
+        deferred: [deferred("analysis", ["a", "b"]), deferred("combined", [])],
+      },
+    },
+    // Still running (or crashed): its report is not final
+    {
+      run_id: "run-2",
+      status: "running",
+      started_at: "2026-10-02T00:00:00.000Z",
+      report: { deferred: [] },
+    }
+  );
+  reportingService.initialize("run-3");
+  timeBudgetService.start();
+});
+
+test("loads the deferrals of the last finished run", async () => {
+  await timeBudgetService.loadPreviousDeferred("run-3");
+
+  assert.deepEqual(timeBudgetService.getPriorityStages(), [
+    "analysis",
+    "combined",
+  ]);
+  assert.deepEqual(timeBudgetService.getPriorityIds("analysis"), ["a", "b"]);
+});
+
+test("carries forward deferrals of stages this run did not complete", async () => {
+  await timeBudgetService.loadPreviousDeferred("run-3");
+
+  timeBudgetService.carryForward((stage) => stage === "analysis");
+  timeBudgetService.carryForward((stage) => stage === "analysis");
+
+  assert.deepEqual(
+    reportingService.getReport().deferred.map((work) => work.stage),
+    ["combined"]
+  );
+});
+
+test("does not carry forward a stage this run deferred again", async () => {
+  await timeBudgetService.loadPreviousDeferred("run-3");
+
+  timeBudgetService.defer("analysis", "stage_budget", ["b"]);
+  timeBudgetService.carryForward(() => false);
+
+  const report = reportingService.getReport();
+  assert.deepEqual(
+    report.deferred.map((work) => [work.stage, work.pending_ids]),
+    [
+      ["analysis", ["b"]],
+      ["combined", []],
+    ]
+  );
+});
+
+test("keeps deferrals outstanding across runs until a run completes them", async () => {
+  await timeBudgetService.loadPreviousDeferred("run-3");
+  timeBudgetService.carryForward(() => false);
+
+  // run-3 finishes without running either stage; run-4 still sees both
+  db.seed("run_reports", {
+    run_id: "run-3",
+    status: "success",
+    started_at: "2026-10-03T00:00:00.000Z",
+    report: reportingService.getReport(),
+  });
+  reportingService.initialize("run-4");
+  timeBudgetService.start();
+  await timeBudgetService.loadPreviousDeferred("run-4");
+
+  assert.deepEqual(timeBudgetService.getPriorityStages(), [
+    "analysis",
+    "combined",
+  ]);
+});
@@ -0,0 +1,135 @@
+import "./support/env";
+import { beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { useFakeSupabase } from "./support/fakeSupabase";
+import { config } from "../src/config";
+import { TranscriptProvider } from "../src/services/transcriptProviderRegistry";
+import { transcriptProviderScoreService } from "../src/services/transcriptProviderScoreService";
+
+const db = useFakeSupabase({ transcript_provider_scores: ["provider"] });
+
+function provider(name: string): TranscriptProvider {
+  return {
+    name,
+    label: name,
+    cost: { unit: "credit", perTranscript: 1 },
+    isConfigured: () => true,
+    fetch: async () => null,
+    getHealth: () => ({ available: true }),
+  };
+}
+
+const alpha = provider("alpha");
+const beta = provider("beta");
+
+beforeEach(async () => {
+  await transcriptProviderScoreService.flush();
+  db.reset();
+  (transcriptProviderScoreService as any).samples.clear();
+  config.transcripts.unitPrices = {};
+  config.transcripts.explorationRate = 0;
+});
+
+test("keeps the configured order without samples", () => {
+  assert.deepEqual(
+    transcriptProviderScoreService.order([alpha, beta]).map((p) => p.name),
+    ["alpha", "beta"]
+  );
+});
+
+test("moves a failing provider behind a succeeding one", () => {
+  for (let i = 0; i < 5; i++) {
+    transcriptProviderScoreService.record("alpha", {
+      success: false,
+      durationMs: 1000,
+    });
+    transcriptProviderScoreService.record("beta", {
+      success: true,
+      durationMs: 1000,
+    });
+  }
+
+  const scores = transcriptProviderScoreService.getScores([alpha, beta]);
+  assert.ok(scores.get("beta").score > scores.get("alpha").score);
+  assert.deepEqual(
+    transcriptProviderScoreService.order([alpha, beta]).map((p) => p.name),
+    ["beta", "alpha"]
+  );
+});
+
+test("counts recent 429s against a provider", () => {
+  transcriptProviderScoreService.record("alpha", {
+    success: false,
+    durationMs: 200,
+    rateLimited: true,
+  });
+
+  const score = transcriptProviderScoreService.getScores([alpha]).get("alpha");
+  assert.equal(score.recent_429s, 1);
+  assert.equal(score.samples, 1);
+});
+
+test("scores cost when every provider is priced", () => {
+  config.transcripts.unitPrices = { alpha: 0.01, beta: 0.02 };
+
+  const scores = transcriptProviderScoreService.getScores([alpha, beta]);
+  assert.equal(scores.get("alpha").cost_per_transcript, 0.01);
+  assert.equal(scores.get("beta").cost_per_transcript, 0.02);
+  assert.ok(scores.get("alpha").score > scores.get("beta").score);
+});
+
+test("leaves cost out when a provider is unpriced", () => {
+  config.transcripts.unitPrices = { alpha: 5 };
+
+  const scores = transcriptProviderScoreService.getScores([alpha, beta]);
+  assert.equal(scores.get("beta").cost_per_transcript, null);
+  assert.equal(scores.get("alpha").score, scores.get("beta").score);
+});
+
+test("writes recorded attempts in batches", async () => {
+  transcriptProviderScoreService.record("alpha", {
+    success: true,
+    durationMs: 500,
+  });
+  transcriptProviderScoreService.record("alpha", {
+    success: true,
+    durationMs: 700,
+  });
+  assert.equal(db.count("upsert transcript_provider_scores"), 0);
+
+  await transcriptProviderScoreService.flush();
+
+  assert.equal(db.count("upsert transcript_provider_scores"), 1);
+  const [row] = db.rows("transcript_provider_scores");
+  assert.equal(row.provider, "alpha");
+  assert.equal(row.samples.length, 2);
+});
+
+test("keeps attempts another process wrote in the meantime", async () => {
+  db.seed("transcript_provider_scores", {
+    provider: "alpha",
+    samples: [
+      {
+        at: Date.now() - 1000,
+        success: false,
+        duration_ms: 900,
+        rate_limited: true,
+      },
+    ],
+  });
+  transcriptProviderScoreService.record("alpha", {
+    success: true,
+    durationMs: 500,
+  });
+
+  await transcriptProviderScoreService.flush();
+
+  const [row] = db.rows("transcript_provider_scores");
+  assert.deepEqual(
+    row.samples.map((sample: { success: boolean }) => sample.success),
+    [false, true]
+  );
+  const score = transcriptProviderScoreService.getScores([alpha]).get("alpha");
+  assert.equal(score.samples, 2);
+  assert.equal(score.recent_429s, 1);
+});
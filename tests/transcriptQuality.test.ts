@@ -0,0 +1,97 @@
+import "./support/env";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  gradeTranscript,
+  transcriptExpectations,
+} from "../src/transcriptQuality";
+import { TranscriptSegment } from "../src/types";
+
+const SPEECH =
+  "Today we look at the market and what the charts say for the next weeks. " +
+  "Gold broke above its range, so I expect it to reach a new high before " +
+  "the end of the year. The dollar index is weak and bond yields are falling, " +
+  "which usually helps metals. You can see the same pattern in silver, but " +
+  "the volume there is not convincing yet. For stocks I am more careful: " +
+  "earnings were mixed and the index is close to resistance. If it fails " +
+  "here, a pullback of five percent would not surprise me at all.";
+
+// Words spread evenly over the given span
+function segmentsUntil(text: string, seconds: number): TranscriptSegment[] {
+  const words = text.split(" ");
+  const step = seconds / words.length;
+  return words.map((word, index) => ({
+    start: index * step,
+    duration: step,
+    text: word,
+  }));
+}
+
+test("a clean transcript grades 1 with no issues", () => {
+  const quality = gradeTranscript(
+    SPEECH,
+    { language: "en-US", durationSeconds: 60 },
+    segmentsUntil(SPEECH, 58)
+  );
+
+  assert.equal(quality.grade, 1);
+  assert.deepEqual(quality.issues, []);
+  assert.equal(quality.checks.language, "en");
+  assert.equal(quality.checks.language_match, true);
+});
+
+test("a looped transcript grades low on repetition", () => {
+  const looped = Array(20).fill("and the price will go up for sure").join(" ");
+  const quality = gradeTranscript(looped);
+
+  assert.ok(quality.grade < 0.5);
+  assert.ok(quality.issues.includes("repetition"));
+});
+
+test("a music-only transcript grades low on fillers", () => {
+  const quality = gradeTranscript("[Music] ♪ [Music] uh [Applause] ♪♪ hmm");
+
+  assert.equal(quality.grade, 0);
+  assert.ok(quality.issues.includes("filler"));
+});
+
+test("a transcript in another language fails the language check", () => {
+  const quality = gradeTranscript(SPEECH, { language: "tr" });
+
+  assert.equal(quality.checks.language_match, false);
+  assert.equal(quality.grade, 0);
+});
+
+test("timings that stop early lower the coverage", () => {
+  const quality = gradeTranscript(
+    SPEECH,
+    { durationSeconds: 60 },
+    segmentsUntil(SPEECH, 15)
+  );
+
+  assert.equal(quality.checks.coverage, 0.25);
+  assert.ok(quality.issues.includes("coverage"));
+});
+
+test("checks without input are left out", () => {
+  const quality = gradeTranscript(SPEECH, { language: "de" });
+
+  assert.equal(quality.checks.language, null);
+  assert.equal(quality.checks.words_per_minute, null);
+  assert.equal(quality.checks.coverage, null);
+});
+
+test("expectations prefer the audio language and parse the duration", () => {
+  assert.deepEqual(
+    transcriptExpectations({
+      defaultAudioLanguage: "tr",
+      defaultLanguage: "en",
+      duration: "PT1H2M3S",
+    }),
+    { language: "tr", durationSeconds: 3723 }
+  );
+  assert.deepEqual(transcriptExpectations({ duration: "P0D" }), {
+    language: null,
+    durationSeconds: null,
+  });
+});
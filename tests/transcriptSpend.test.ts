@@ -0,0 +1,99 @@
+import "./support/env";
+import os from "os";
+import { beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { useFakeSupabase } from "./support/fakeSupabase";
+import { config } from "../src/config";
+import { transcriptSpendService } from "../src/services/transcriptSpendService";
+
+const SPEND_KEY = ["spend_month", "provider", "source"];
+const db = useFakeSupabase({ transcript_provider_spend: SPEND_KEY });
+const month = new Date().toISOString().substring(0, 7);
+
+beforeEach(async () => {
+  await transcriptSpendService.flush();
+  db.reset();
+  (transcriptSpendService as any).local.clear();
+  (transcriptSpendService as any).external.clear();
+  (transcriptSpendService as any).refreshedAt.clear();
+  config.transcripts.budgets = {};
+  config.transcripts.unitPrices = {};
+});
+
+test("providers without a budget are never refused", async () => {
+  transcriptSpendService.record("unlimited", 1000);
+
+  assert.equal(await transcriptSpendService.canSpend("unlimited", 2), true);
+  assert.equal(transcriptSpendService.getUsage("unlimited").remaining, null);
+});
+
+test("refuses a call the remaining budget can't cover", async () => {
+  config.transcripts.budgets = { supadata: 3 };
+  transcriptSpendService.record("supadata", 2);
+
+  assert.equal(transcriptSpendService.getUsage("supadata").remaining, 1);
+  assert.equal(await transcriptSpendService.canSpend("supadata", 1), true);
+  assert.equal(await transcriptSpendService.canSpend("supadata", 2), false);
+});
+
+test("counts what other processes spent this month", async () => {
+  config.transcripts.budgets = { transcriptapi: 10 };
+  db.seed("transcript_provider_spend", {
+    spend_month: month,
+    provider: "transcriptapi",
+    source: "other-host:1",
+    calls: 9,
+    units: 9,
+    cost: 0,
+    currency: "USD",
+  });
+
+  assert.equal(await transcriptSpendService.canSpend("transcriptapi", 1), true);
+  transcriptSpendService.record("transcriptapi", 1);
+  assert.equal(await transcriptSpendService.canSpend("transcriptapi", 1), false);
+  assert.equal(transcriptSpendService.getUsage("transcriptapi").calls, 10);
+});
+
+test("counts an earlier process with the same hostname and pid", async () => {
+  config.transcripts.budgets = { supadata: 5 };
+  db.seed("transcript_provider_spend", {
+    spend_month: month,
+    provider: "supadata",
+    source: `${os.hostname()}:${process.pid}`,
+    calls: 4,
+    units: 4,
+    cost: 0,
+    currency: "USD",
+  });
+
+  assert.equal(await transcriptSpendService.canSpend("supadata", 2), false);
+  transcriptSpendService.record("supadata", 1);
+  await transcriptSpendService.flush();
+
+  assert.equal(db.rows("transcript_provider_spend").length, 2);
+});
+
+test("prices units in the configured currency", () => {
+  config.transcripts.unitPrices = { rapidapi: 0.004 };
+
+  assert.equal(transcriptSpendService.record("rapidapi", 1), 0.004);
+  assert.equal(transcriptSpendService.record("rapidapi", 1), 0.004);
+  assert.equal(transcriptSpendService.getUsage("rapidapi").cost, 0.008);
+});
+
+test("writes the ledger in batches", async () => {
+  transcriptSpendService.record("supadata", 1);
+  transcriptSpendService.record("supadata", 2);
+  transcriptSpendService.record("rapidapi", 1);
+  assert.equal(db.count("upsert transcript_provider_spend"), 0);
+
+  await transcriptSpendService.flush();
+
+  assert.equal(db.count("upsert transcript_provider_spend"), 1);
+  const supadata = db
+    .rows("transcript_provider_spend")
+    .find((row) => row.provider === "supadata");
+  assert.equal(supadata.calls, 2);
+  assert.equal(supadata.units, 3);
+  assert.equal(db.rows("transcript_provider_spend").length, 2);
+});